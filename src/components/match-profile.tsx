@@ -6,10 +6,10 @@ interface User {
   id: string
   name: string
   role: string
-  bio: string
-  pronouns: string
-  company: string
-  avatar: string
+  bio?: string
+  pronouns?: string
+  company?: string
+  avatar?: string
   skills: string[]
   matchPercentage: number
   alignmentSummary: string
@@ -30,10 +30,10 @@ export function MatchProfile({ user }: MatchProfileProps) {
         <div>
           <div className="flex items-center gap-2">
             <h3 className="font-medium">{user.name}</h3>
-            <span className="text-sm text-gray-500">({user.pronouns})</span>
+            {user.pronouns && <span className="text-sm text-gray-500">({user.pronouns})</span>}
           </div>
           <p className="text-sm text-gray-500">{user.role}</p>
-          <p className="text-sm text-gray-500">{user.company}</p>
+          {user.company && <p className="text-sm text-gray-500">{user.company}</p>}
         </div>
       </div>
       <div>
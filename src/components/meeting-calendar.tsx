@@ -0,0 +1,196 @@
+import { KeyboardEvent, useMemo } from "react"
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import { ChevronLeft, ChevronRight, Repeat } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import type { BookableSlot } from "@/lib/availability"
+import { formatClockTime, formatMeetingTime, MeetingSummary } from "@/lib/meetings"
+import { zonedDateString } from "@/lib/timeZones"
+
+export type CalendarView = "month" | "week"
+
+/**
+ * Days shown for the month or week containing `anchorDate`, as 'yyyy-MM-dd'
+ * strings with `end` exclusive. Months include the leading and trailing days
+ * that fill their first and last weeks.
+ */
+export function calendarRange(view: CalendarView, anchorDate: string): { start: string; end: string } {
+  const anchor = parseISO(anchorDate)
+  const first = startOfWeek(view === "month" ? startOfMonth(anchor) : anchor)
+  const last = endOfWeek(view === "month" ? endOfMonth(anchor) : anchor)
+  return { start: format(first, "yyyy-MM-dd"), end: format(addDays(last, 1), "yyyy-MM-dd") }
+}
+
+interface MeetingCalendarProps {
+  view: CalendarView
+  anchorDate: string // 'yyyy-MM-dd' inside the month or week shown
+  today: string // 'yyyy-MM-dd' in the viewer's zone
+  timeZone: string // Viewer's zone; meetings and slots are placed on the day they start in it
+  meetings: MeetingSummary[]
+  availableSlots: BookableSlot[] // Bookable times with the mentor over the range shown
+  onViewChange: (view: CalendarView) => void
+  onAnchorDateChange: (date: string) => void
+  onBookDay: (date: string) => void // Called when a day with bookable time is clicked
+}
+
+const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+// Group items by the calendar day they start on in `timeZone`.
+function groupByDay<T extends { start: string }>(items: T[], timeZone: string): Map<string, T[]> {
+  const days = new Map<string, T[]>()
+  for (const item of items) {
+    const day = zonedDateString(new Date(item.start), timeZone)
+    days.set(day, [...(days.get(day) ?? []), item])
+  }
+  return days
+}
+
+// Calendar days are plain dates, so date-fns works on them as local dates and never
+// converts between zones; only the meeting and slot instants are placed with `timeZone`.
+export function MeetingCalendar({
+  view,
+  anchorDate,
+  today,
+  timeZone,
+  meetings,
+  availableSlots,
+  onViewChange,
+  onAnchorDateChange,
+  onBookDay,
+}: MeetingCalendarProps) {
+  const range = calendarRange(view, anchorDate)
+  const anchor = parseISO(anchorDate)
+  const days = eachDayOfInterval({ start: parseISO(range.start), end: addDays(parseISO(range.end), -1) })
+  const meetingsByDay = useMemo(() => groupByDay(meetings, timeZone), [meetings, timeZone])
+  const slotsByDay = useMemo(() => groupByDay(availableSlots, timeZone), [availableSlots, timeZone])
+
+  const step = (amount: number) => {
+    const next = view === "month" ? addMonths(anchor, amount) : addWeeks(anchor, amount)
+    onAnchorDateChange(format(next, "yyyy-MM-dd"))
+  }
+
+  const title = view === "month"
+    ? format(anchor, "MMMM yyyy")
+    : `${format(days[0], "MMM d")} - ${format(days[days.length - 1], "MMM d, yyyy")}`
+
+  return (
+    <div className="rounded-lg border bg-white shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b p-4">
+        <h2 className="text-lg font-medium">Calendar</h2>
+        <div className="flex items-center gap-2">
+          <Tabs value={view} onValueChange={(value) => onViewChange(value as CalendarView)}>
+            <TabsList className="h-9">
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="sm" onClick={() => onAnchorDateChange(today)}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => step(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous {view}</span>
+          </Button>
+          <span className="min-w-[9rem] text-center text-sm font-medium">{title}</span>
+          <Button variant="outline" size="icon" onClick={() => step(1)}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next {view}</span>
+          </Button>
+        </div>
+      </div>
+      <div className="p-4">
+        <div className="grid grid-cols-7 gap-px bg-gray-200">
+          {days.slice(0, 7).map((day) => (
+            <div key={weekdayNames[day.getDay()]} className="bg-white p-2 text-center text-sm font-medium">
+              {view === "month" ? weekdayNames[day.getDay()] : format(day, "EEE d")}
+            </div>
+          ))}
+          {days.map((day) => {
+            const cellDate = format(day, "yyyy-MM-dd")
+            const isOutsideMonth = view === "month" && !isSameMonth(day, anchor)
+            const isToday = cellDate === today
+            const dayMeetings = meetingsByDay.get(cellDate) ?? []
+            const openSlots = cellDate >= today ? slotsByDay.get(cellDate) ?? [] : []
+            const canBook = openSlots.length > 0
+            const bookDay = () => {
+              if (canBook) onBookDay(cellDate)
+            }
+
+            return (
+              <div
+                key={cellDate}
+                role={canBook ? "button" : undefined}
+                tabIndex={canBook ? 0 : undefined}
+                aria-label={canBook ? `Book a meeting on ${format(day, "PPP")}` : undefined}
+                onClick={bookDay}
+                onKeyDown={(e: KeyboardEvent) => {
+                  if (e.key === "Enter" || e.key === " ") {
+                    e.preventDefault()
+                    bookDay()
+                  }
+                }}
+                className={`relative bg-white p-1 ${view === "month" ? "min-h-[80px]" : "min-h-[240px]"} ${
+                  isOutsideMonth ? "text-gray-300" : ""
+                } ${canBook ? "cursor-pointer bg-green-50 hover:bg-green-100" : ""} ${isToday ? "bg-pink-50" : ""}`}
+              >
+                <div className="flex justify-between">
+                  <span className={`text-sm ${isToday ? "font-bold text-pink-600" : ""}`}>{view === "month" ? format(day, "d") : ""}</span>
+                  {dayMeetings.length > 0 && (
+                    <span className="flex h-5 w-5 items-center justify-center rounded-full bg-pink-500 text-xs text-white">
+                      {dayMeetings.length}
+                    </span>
+                  )}
+                </div>
+                {dayMeetings.map((meeting) => (
+                  <div
+                    key={meeting.id}
+                    className={`mt-1 flex items-center gap-1 rounded p-1 text-xs ${
+                      meeting.status === "completed" ? "bg-gray-100 text-gray-600" : "bg-pink-100 text-pink-800"
+                    } ${isOutsideMonth ? "opacity-50" : ""}`}
+                  >
+                    {meeting.series && <Repeat className="h-3 w-3 shrink-0" />}
+                    <span>
+                      {view === "month" ? formatClockTime(meeting.start, timeZone) : formatMeetingTime(meeting, timeZone)} -{" "}
+                      {meeting.title}
+                    </span>
+                  </div>
+                ))}
+                {canBook && (view === "week" || dayMeetings.length === 0) && (
+                  <div className="mt-1 rounded bg-green-100 p-1 text-xs text-green-800">
+                    {view === "month"
+                      ? "Mentor Available"
+                      : `${openSlots.length} open time${openSlots.length === 1 ? "" : "s"} from ${formatClockTime(openSlots[0].start, timeZone)}`}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+      <div className="border-t p-3 flex items-center gap-4 text-sm">
+        <div className="flex items-center gap-1">
+          <div className="h-3 w-3 rounded-full bg-pink-500"></div>
+          <span>Your Meetings</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="h-3 w-3 rounded-full bg-green-500"></div>
+          <span>Mentor Availability</span>
+        </div>
+        <span className="ml-auto text-xs text-gray-500">Click an available day to book</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { useMemo } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { timeZoneOptions } from "@/lib/timeZones"
+
+interface TimeZoneSelectProps {
+  value: string
+  onValueChange: (timeZone: string) => void
+  className?: string
+}
+
+export function TimeZoneSelect({ value, onValueChange, className }: TimeZoneSelectProps) {
+  const zones = useMemo(() => timeZoneOptions(value || undefined), [value])
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select time zone" />
+      </SelectTrigger>
+      <SelectContent>
+        {zones.map((zone) => (
+          <SelectItem key={zone} value={zone}>
+            {zone.replace(/_/g, " ")}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,82 @@
+// src/lib/authMessages.ts
+// User-facing wording for Supabase auth errors. Flows that email a link never
+// reveal whether an account exists for the address.
+import type { AuthError } from '@supabase/supabase-js';
+
+// Supabase limits how often auth emails go to one address; forms wait this long between sends.
+export const AUTH_EMAIL_COOLDOWN_SECONDS = 60;
+
+export const RATE_LIMIT_MESSAGE = 'Too many attempts. Please wait a minute and try again.';
+
+export const MAGIC_LINK_SENT_MESSAGE = "If an account exists for that email, we've sent a login link to it.";
+export const PASSWORD_RESET_SENT_MESSAGE = "If an account exists for that email, we've sent a link to reset your password.";
+
+// Errors that only tell us the address has no usable account; reported as "sent".
+const ACCOUNT_LOOKUP_CODES = new Set(['user_not_found', 'otp_disabled', 'signup_disabled', 'email_not_confirmed']);
+
+export function isRateLimitError(error: AuthError): boolean {
+  return error.status === 429 || error.code === 'over_email_send_rate_limit' || error.code === 'over_request_rate_limit';
+}
+
+export function passwordLoginErrorMessage(error: AuthError): string {
+  if (isRateLimitError(error)) return RATE_LIMIT_MESSAGE;
+  if (error.code === 'email_not_confirmed') return 'Please confirm your email address using the link we sent you.';
+  // Same wording for an unknown email and a wrong password.
+  return 'Invalid email or password.';
+}
+
+/**
+ * Message for a failed magic-link or password-reset request, or null when the
+ * form should show its usual "if an account exists" confirmation.
+ */
+export function emailLinkErrorMessage(error: AuthError): string | null {
+  if (isRateLimitError(error)) return RATE_LIMIT_MESSAGE;
+  if (error.code && ACCOUNT_LOOKUP_CODES.has(error.code)) return null;
+  if (error.code === 'email_address_invalid') return 'Please enter a valid email address.';
+  return 'We could not send the email right now. Please try again later.';
+}
+
+// Why an emailed link could not sign the user in. /api/auth/callback sends only
+// the code to the login page, which shows the matching message.
+const AUTH_LINK_ERROR_MESSAGES = {
+  invalid_link: 'This link is invalid. Please request a new one.',
+  expired_link: 'This link is invalid or has expired. Please request a new one.',
+  sign_in_failed: 'We could not sign you in. Please try again.',
+} as const;
+
+export type AuthLinkErrorCode = keyof typeof AUTH_LINK_ERROR_MESSAGES;
+
+// Message for an ?error= code, or null for anything we did not send.
+export function authLinkErrorMessage(code: unknown): string | null {
+  return typeof code === 'string' && Object.hasOwn(AUTH_LINK_ERROR_MESSAGES, code)
+    ? AUTH_LINK_ERROR_MESSAGES[code as AuthLinkErrorCode]
+    : null;
+}
+
+/**
+ * Message for a failed sign-up, or null when the form should show its usual
+ * "check your email" screen, as it does for a new account.
+ */
+export function signupErrorMessage(error: AuthError): string | null {
+  if (isRateLimitError(error)) return RATE_LIMIT_MESSAGE;
+  if (error.code === 'user_already_exists' || error.code === 'email_exists') return null;
+  if (error.code === 'email_address_invalid') return 'Please enter a valid email address.';
+  if (error.code === 'weak_password') return 'Please choose a stronger password.';
+  return 'We could not create your account. Please try again later.';
+}
+
+// For re-entering the current password before changing it.
+export function currentPasswordErrorMessage(error: AuthError): string {
+  if (isRateLimitError(error)) return RATE_LIMIT_MESSAGE;
+  return 'Your current password is incorrect.';
+}
+
+export function passwordUpdateErrorMessage(error: AuthError): string {
+  if (isRateLimitError(error)) return RATE_LIMIT_MESSAGE;
+  if (error.code === 'same_password') return 'Your new password must be different from your current one.';
+  if (error.code === 'weak_password') return 'Please choose a stronger password.';
+  if (error.code === 'session_not_found' || error.code === 'session_expired') {
+    return 'Your reset link has expired. Please request a new one.';
+  }
+  return 'We could not update your password. Please try again.';
+}
@@ -0,0 +1,83 @@
+// src/lib/authRedirect.ts
+// Where users land once they are authenticated, whether by password, email
+// confirmation link or OAuth.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { ensureServer } from './env.ts';
+
+// Email confirmation (and other auth) links come back here to exchange their code for a session.
+export const AUTH_CALLBACK_PATH = '/api/auth/callback';
+export const ONBOARDING_PATH = '/onboarding';
+export const DASHBOARD_PATH = '/dashboard';
+export const LOGIN_PATH = '/auth/login';
+
+// Stand-in origin for checking that a path cannot leave the site.
+const REDIRECT_CHECK_ORIGIN = 'http://localhost';
+
+function hasControlCharacter(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x20 || code === 0x7f) return true;
+  }
+  return false;
+}
+
+/**
+ * Accept only same-origin paths as redirect targets, so the auth callback
+ * cannot be used as an open redirect. Browsers drop tabs and newlines from
+ * URLs, turning "/\t/evil.com" into "//evil.com", so control characters are
+ * rejected before the path is resolved.
+ */
+export function safeRedirectPath(path: unknown): string | null {
+  if (typeof path !== 'string' || !path.startsWith('/')) return null;
+  if (hasControlCharacter(path) || path.startsWith('//') || path.startsWith('/\\')) return null;
+  try {
+    if (new URL(path, REDIRECT_CHECK_ORIGIN).origin !== REDIRECT_CHECK_ORIGIN) return null;
+  } catch {
+    return null;
+  }
+  return path;
+}
+
+// Login URL that returns the user to `next` once they have signed in.
+export function loginPath(next?: string): string {
+  return next ? `${LOGIN_PATH}?next=${encodeURIComponent(next)}` : LOGIN_PATH;
+}
+
+/**
+ * The site's origin as configured in SITE_URL, for absolute URLs such as OAuth
+ * redirect URIs. Never taken from the Host or X-Forwarded-* headers, which the
+ * client controls.
+ * This function must only be called from server-side code.
+ */
+export function siteOrigin(): string {
+  ensureServer('siteOrigin');
+  const siteUrl = process.env.SITE_URL;
+  if (!siteUrl) {
+    throw new Error('Site URL not found. Did you set SITE_URL?');
+  }
+  return new URL(siteUrl).origin;
+}
+
+export function authCallbackUrl(origin: string, next?: string): string {
+  const url = new URL(AUTH_CALLBACK_PATH, origin);
+  if (next) url.searchParams.set('next', next);
+  return url.toString();
+}
+
+/**
+ * Users who have not finished onboarding are sent there first; returning users
+ * go to the dashboard.
+ */
+export async function resolvePostAuthPath(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('user_onboarding_details')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('[resolvePostAuthPath] Error checking onboarding status:', error);
+    return DASHBOARD_PATH;
+  }
+  return data ? DASHBOARD_PATH : ONBOARDING_PATH;
+}
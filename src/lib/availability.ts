@@ -0,0 +1,314 @@
+// src/lib/availability.ts
+// Mentor availability: recurring weekly hours plus dated exceptions, stored in
+// the mentor's time zone, and the slot engine that turns them into bookable
+// meeting times for /api/availability/slots.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+import type { MeetingPair } from './calendarEvents.ts';
+import { ensureServer } from './env.ts';
+import { listBusyIntervals } from './meetings.ts';
+import {
+  addDaysToDateString,
+  isValidTimeZone,
+  weekdayOfDateString,
+  zonedDateString,
+  zonedMinutesOfDay,
+  zonedTimeToInstant,
+} from './timeZones.ts';
+
+export const DEFAULT_MEETING_MINUTES = 60;
+export const SLOT_STEP_MINUTES = 30; // Slots start on the hour and half hour of the mentor's hours
+export const MAX_SLOT_RANGE_DAYS = 62; // Enough for a month view with its leading and trailing days
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface WeeklyAvailabilityWindow {
+  weekday: number; // 0 = Sunday
+  start: string; // 'HH:mm' in the mentor's time zone
+  end: string; // 'HH:mm', up to '24:00'
+}
+
+export interface AvailabilityException {
+  date: string; // 'yyyy-MM-dd' in the mentor's time zone
+  available: boolean; // false blocks time off; true adds hours outside the weekly schedule
+  start?: string | null; // 'HH:mm'; leave out both times for the whole day
+  end?: string | null;
+  note?: string | null;
+}
+
+// Row in the 'mentor_availability' table; one per mentor. Writable by the mentor
+// under RLS. Slot lookups for their mentees read it with the service role.
+export interface MentorAvailabilityRow {
+  mentor_id: string; // Primary key, foreign key to auth.users.id
+  time_zone: string; // IANA zone, e.g. "Europe/London"
+  buffer_minutes: number; // Kept free before and after every meeting
+  weekly_hours: WeeklyAvailabilityWindow[]; // jsonb
+  exceptions: AvailabilityException[]; // jsonb
+  updated_at: string; // timestamptz
+}
+
+// Availability as sent to and from the browser.
+export interface MentorAvailability {
+  timeZone: string;
+  bufferMinutes: number;
+  weeklyHours: WeeklyAvailabilityWindow[];
+  exceptions: AvailabilityException[];
+}
+
+export interface TimeInterval {
+  start: string; // ISO 8601 instant
+  end: string; // ISO 8601 instant
+}
+
+export type BookableSlot = TimeInterval;
+
+// A requested meeting time that clashes with another meeting or falls outside the mentor's hours.
+export interface SlotConflict extends TimeInterval {
+  reason: 'overlap' | 'unavailable';
+}
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, { message: 'Times must be in HH:mm format.' });
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Dates must be in yyyy-MM-dd format.' });
+
+function endsAfterStart(window: { start?: string | null; end?: string | null }): boolean {
+  return !window.start || !window.end || window.end > window.start;
+}
+
+export const weeklyAvailabilityWindowSchema = z
+  .object({
+    weekday: z.number().int().min(0).max(6),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  })
+  .refine(endsAfterStart, { message: 'Availability must end after it starts.', path: ['end'] });
+
+export const availabilityExceptionSchema = z
+  .object({
+    date: dateSchema,
+    available: z.boolean(),
+    start: timeOfDaySchema.nullish(),
+    end: timeOfDaySchema.nullish(),
+    note: z.string().trim().max(200).nullish(),
+  })
+  .refine((exception) => !exception.start === !exception.end, {
+    message: 'Give an exception both a start and an end time, or neither for the whole day.',
+    path: ['end'],
+  })
+  .refine(endsAfterStart, { message: 'Exceptions must end after they start.', path: ['end'] });
+
+export const mentorAvailabilitySchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, { message: 'Please choose a valid time zone.' }),
+  bufferMinutes: z.number().int().min(0).max(240),
+  weeklyHours: z.array(weeklyAvailabilityWindowSchema).max(50),
+  exceptions: z.array(availabilityExceptionSchema).max(200),
+});
+
+function rowToAvailability(row: MentorAvailabilityRow): MentorAvailability {
+  return {
+    timeZone: row.time_zone,
+    bufferMinutes: row.buffer_minutes,
+    weeklyHours: row.weekly_hours ?? [],
+    exceptions: row.exceptions ?? [],
+  };
+}
+
+export async function getMentorAvailability(
+  supabase: SupabaseClient,
+  mentorId: string
+): Promise<MentorAvailability | null> {
+  const { data, error } = await supabase
+    .from('mentor_availability')
+    .select('*')
+    .eq('mentor_id', mentorId)
+    .maybeSingle<MentorAvailabilityRow>();
+  if (error) {
+    console.error(`[getMentorAvailability] Error loading availability for mentor "${mentorId}":`, error);
+    throw new Error('Failed to load mentor availability.');
+  }
+  return data ? rowToAvailability(data) : null;
+}
+
+/**
+ * Replace the mentor's availability. Exceptions for dates that have already
+ * passed in the mentor's time zone are dropped.
+ */
+export async function saveMentorAvailability(
+  supabase: SupabaseClient,
+  mentorId: string,
+  availability: MentorAvailability
+): Promise<MentorAvailability> {
+  const today = zonedDateString(new Date(), availability.timeZone);
+  const row: MentorAvailabilityRow = {
+    mentor_id: mentorId,
+    time_zone: availability.timeZone,
+    buffer_minutes: availability.bufferMinutes,
+    weekly_hours: [...availability.weeklyHours].sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start)),
+    exceptions: availability.exceptions
+      .filter((exception) => exception.date >= today)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    updated_at: new Date().toISOString(),
+  };
+  const { data, error } = await supabase
+    .from('mentor_availability')
+    .upsert(row, { onConflict: 'mentor_id' })
+    .select()
+    .single<MentorAvailabilityRow>();
+  if (error) {
+    console.error(`[saveMentorAvailability] Error saving availability for mentor "${mentorId}":`, error);
+    throw new Error('Failed to save mentor availability.');
+  }
+  console.log(`[saveMentorAvailability] Saved availability for mentor ${mentorId}`);
+  return rowToAvailability(data);
+}
+
+type MinuteRange = [number, number];
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function mergeRanges(ranges: MinuteRange[]): MinuteRange[] {
+  const merged: MinuteRange[] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+function subtractRange(ranges: MinuteRange[], [start, end]: MinuteRange): MinuteRange[] {
+  return ranges.flatMap(([rangeStart, rangeEnd]): MinuteRange[] => {
+    if (end <= rangeStart || start >= rangeEnd) return [[rangeStart, rangeEnd]];
+    const remaining: MinuteRange[] = [];
+    if (start > rangeStart) remaining.push([rangeStart, start]);
+    if (end < rangeEnd) remaining.push([end, rangeEnd]);
+    return remaining;
+  });
+}
+
+function exceptionRange(exception: AvailabilityException): MinuteRange {
+  return exception.start && exception.end
+    ? [toMinutes(exception.start), toMinutes(exception.end)]
+    : [0, MINUTES_PER_DAY];
+}
+
+// Wall-clock ranges the mentor is available on `date`, after exceptions.
+function availableRangesOn(availability: MentorAvailability, date: string): MinuteRange[] {
+  const weekday = weekdayOfDateString(date);
+  const exceptions = availability.exceptions.filter((exception) => exception.date === date);
+  let ranges = mergeRanges([
+    ...availability.weeklyHours
+      .filter((window) => window.weekday === weekday)
+      .map((window): MinuteRange => [toMinutes(window.start), toMinutes(window.end)]),
+    ...exceptions.filter((exception) => exception.available).map(exceptionRange),
+  ]);
+  for (const exception of exceptions.filter((exception) => !exception.available)) {
+    ranges = subtractRange(ranges, exceptionRange(exception));
+  }
+  return ranges;
+}
+
+export interface SlotQuery {
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  busy: TimeInterval[]; // Existing meetings; the mentor's buffer is kept around each
+  now?: Date; // Slots never start before this; defaults to the current time
+}
+
+/**
+ * Bookable meeting times within [from, to): every SLOT_STEP_MINUTES through the
+ * mentor's hours, minus busy time and its buffer. Slots are built on the
+ * mentor's wall clock, so a 9:00 start stays at 9:00 across DST changes; slots
+ * that a DST change would lengthen or shorten are left out.
+ */
+export function computeBookableSlots(availability: MentorAvailability, query: SlotQuery): BookableSlot[] {
+  const { timeZone } = availability;
+  const durationMs = query.durationMinutes * 60000;
+  const bufferMs = availability.bufferMinutes * 60000;
+  const earliest = Math.max(query.from.getTime(), (query.now ?? new Date()).getTime());
+  const latest = query.to.getTime();
+  const busy = query.busy.map(({ start, end }): MinuteRange => [Date.parse(start) - bufferMs, Date.parse(end) + bufferMs]);
+
+  const slots: BookableSlot[] = [];
+  const lastDate = zonedDateString(query.to, timeZone);
+  for (let date = zonedDateString(query.from, timeZone); date <= lastDate; date = addDaysToDateString(date, 1)) {
+    for (const [rangeStart, rangeEnd] of availableRangesOn(availability, date)) {
+      for (let minute = rangeStart; minute + query.durationMinutes <= rangeEnd; minute += SLOT_STEP_MINUTES) {
+        const start = zonedTimeToInstant(date, minute, timeZone).getTime();
+        const end = zonedTimeToInstant(date, minute + query.durationMinutes, timeZone).getTime();
+        if (end - start !== durationMs || start < earliest || end > latest) continue;
+        if (busy.some(([busyStart, busyEnd]) => start < busyEnd && end > busyStart)) continue;
+        slots.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString() });
+      }
+    }
+  }
+  return slots;
+}
+
+/**
+ * Which of the requested meeting times overlap busy time (with the mentor's
+ * buffer) or fall outside the mentor's hours. Without saved availability only
+ * overlaps are reported.
+ */
+export function findSlotConflicts(
+  availability: MentorAvailability | null,
+  intervals: TimeInterval[],
+  busy: TimeInterval[]
+): SlotConflict[] {
+  const bufferMs = (availability?.bufferMinutes ?? 0) * 60000;
+  const conflicts: SlotConflict[] = [];
+  for (const interval of intervals) {
+    const start = Date.parse(interval.start);
+    const end = Date.parse(interval.end);
+    if (busy.some((other) => start < Date.parse(other.end) + bufferMs && end > Date.parse(other.start) - bufferMs)) {
+      conflicts.push({ ...interval, reason: 'overlap' });
+      continue;
+    }
+    if (!availability) continue;
+    const startDate = new Date(start);
+    const startMinute = zonedMinutesOfDay(startDate, availability.timeZone);
+    const endMinute = startMinute + (end - start) / 60000;
+    const ranges = availableRangesOn(availability, zonedDateString(startDate, availability.timeZone));
+    if (!ranges.some(([rangeStart, rangeEnd]) => startMinute >= rangeStart && endMinute <= rangeEnd)) {
+      conflicts.push({ ...interval, reason: 'unavailable' });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Conflicts for meetings of `pair` at the given times, against the mentor's
+ * availability and both participants' other scheduled meetings. Meetings being
+ * moved should be passed in `excludeMeetingIds`. `supabaseAdmin` must use the
+ * service role. This function must only be called from server-side code.
+ */
+export async function checkMeetingConflicts(
+  supabaseAdmin: SupabaseClient,
+  pair: MeetingPair,
+  intervals: TimeInterval[],
+  excludeMeetingIds: string[] = []
+): Promise<SlotConflict[]> {
+  ensureServer('checkMeetingConflicts');
+  if (intervals.length === 0) return [];
+  const availability = await getMentorAvailability(supabaseAdmin, pair.mentorId);
+  const bufferMs = (availability?.bufferMinutes ?? 0) * 60000;
+  const from = Math.min(...intervals.map((interval) => Date.parse(interval.start))) - bufferMs;
+  const to = Math.max(...intervals.map((interval) => Date.parse(interval.end))) + bufferMs;
+  const busy = await listBusyIntervals(
+    supabaseAdmin,
+    [pair.menteeId, pair.mentorId],
+    new Date(from).toISOString(),
+    new Date(to).toISOString(),
+    excludeMeetingIds
+  );
+  return findSlotConflicts(availability, intervals, busy);
+}
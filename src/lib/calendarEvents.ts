@@ -0,0 +1,361 @@
+// src/lib/calendarEvents.ts
+// Google Calendar events created for mentorship meetings. The event id is kept
+// so later edits and cancellations update the same event. A series is one
+// recurring event with a row per occurrence, holding that occurrence's id.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Auth } from 'googleapis';
+
+import type { TimeInterval } from './availability.ts';
+import { ensureServer } from './env.ts';
+import {
+  CalendarEventDetails,
+  CalendarEventInput,
+  CalendarEventInstance,
+  cancelCalendarEvent,
+  createCalendarEvent,
+  endRecurringCalendarEvent,
+  getAuthorizedCalendarClient,
+  listCalendarEventInstances,
+  updateCalendarEvent,
+} from './googleCalendar.ts';
+import { recurrenceRule, RecurrenceFrequency } from './meetingSeries.ts';
+import { UserOnboardingDetails } from './profiles.ts';
+
+// Row in the 'calendar_events' table.
+export interface CalendarEventRow {
+  id: string; // uuid, generated by the database
+  organizer_id: string; // User whose Google Calendar holds the event
+  mentee_id: string;
+  mentor_id: string;
+  google_event_id: string; // For an occurrence of a series, the id of that occurrence
+  google_recurring_event_id: string | null; // The series' recurring event, for occurrences
+  html_link: string | null;
+  conference_link: string | null;
+  summary: string;
+  meeting_type: string | null;
+  start_at: string; // timestamptz
+  end_at: string; // timestamptz
+  created_at: string; // timestamptz
+}
+
+export interface MeetingPair {
+  menteeId: string;
+  mentorId: string;
+}
+
+// Details shared by every occurrence of a series' recurring event.
+export type CalendarEventSeriesInput = Omit<CalendarEventInput, 'attendeeEmails' | 'start' | 'end' | 'timeZone' | 'recurrence'> & {
+  frequency: RecurrenceFrequency;
+  timeZone: string; // The series' zone, whose wall clock the occurrences follow
+};
+
+// New times for the occurrence stored in a 'calendar_events' row.
+export type CalendarEventTimes = TimeInterval & { calendarEventId: string };
+
+async function loadAttendeeEmails(supabaseAdmin: SupabaseClient, pair: MeetingPair): Promise<string[]> {
+  const { data: participants, error: participantsError } = await supabaseAdmin
+    .from('user_onboarding_details')
+    .select('user_id, email')
+    .in('user_id', [pair.menteeId, pair.mentorId])
+    .returns<Pick<UserOnboardingDetails, 'user_id' | 'email'>[]>();
+  if (participantsError) throw participantsError;
+  if (participants?.length !== 2) {
+    throw new Error('Could not find both participants of the meeting.');
+  }
+  return participants.map((participant) => participant.email);
+}
+
+/**
+ * Create a Google Calendar event for a meeting between a mentee and mentor,
+ * inviting both, and record it. Returns null if the organizer has not
+ * connected Google Calendar. `supabaseAdmin` must use the service role.
+ * This function must only be called from server-side code.
+ */
+export async function scheduleCalendarEvent(
+  supabaseAdmin: SupabaseClient,
+  organizerId: string,
+  pair: MeetingPair,
+  input: Omit<CalendarEventInput, 'attendeeEmails'>
+): Promise<CalendarEventRow | null> {
+  ensureServer('scheduleCalendarEvent');
+  const auth = await getAuthorizedCalendarClient(supabaseAdmin, organizerId);
+  if (!auth) return null;
+
+  const event = await createCalendarEvent(auth, {
+    ...input,
+    attendeeEmails: await loadAttendeeEmails(supabaseAdmin, pair),
+  });
+
+  const { data: row, error: saveError } = await supabaseAdmin
+    .from('calendar_events')
+    .insert({
+      organizer_id: organizerId,
+      mentee_id: pair.menteeId,
+      mentor_id: pair.mentorId,
+      google_event_id: event.googleEventId,
+      google_recurring_event_id: null,
+      html_link: event.htmlLink,
+      conference_link: event.conferenceLink,
+      summary: input.summary,
+      meeting_type: input.meetingType ?? null,
+      start_at: input.start,
+      end_at: input.end,
+    })
+    .select('*')
+    .single<CalendarEventRow>();
+  if (saveError) {
+    // Without the stored id the event could never be updated, so don't leave it behind.
+    console.error(`[scheduleCalendarEvent] Error saving event ${event.googleEventId}, cancelling it:`, saveError);
+    await cancelCalendarEvent(auth, event.googleEventId).catch((cancelError) =>
+      console.error('[scheduleCalendarEvent] Error cancelling unsaved event:', cancelError)
+    );
+    throw saveError;
+  }
+
+  console.log(`[scheduleCalendarEvent] Created event ${event.googleEventId} for mentee ${pair.menteeId} and mentor ${pair.mentorId}`);
+  return row;
+}
+
+/**
+ * Create one recurring event for `occurrences`, in start order, and return its
+ * occurrences lined up with them. Any the rule places at another time are moved
+ * to match. The event is cancelled again if this fails part way.
+ */
+async function createSeriesEvent(
+  auth: Auth.OAuth2Client,
+  attendeeEmails: string[],
+  input: CalendarEventSeriesInput,
+  occurrences: TimeInterval[]
+): Promise<{ event: CalendarEventDetails; instances: CalendarEventInstance[] }> {
+  const { frequency, timeZone, ...details } = input;
+  const [first] = occurrences;
+  const event = await createCalendarEvent(auth, {
+    ...details,
+    start: first.start,
+    end: first.end,
+    timeZone,
+    recurrence: [recurrenceRule(frequency, first.start, timeZone, occurrences.length)],
+    attendeeEmails,
+  });
+
+  try {
+    const instances = await listCalendarEventInstances(auth, event.googleEventId);
+    if (instances.length !== occurrences.length) {
+      throw new Error(`Google Calendar created ${instances.length} occurrences for ${occurrences.length} meetings`);
+    }
+    for (const [index, instance] of instances.entries()) {
+      const { start, end } = occurrences[index];
+      if (Date.parse(instance.start) !== Date.parse(start) || Date.parse(instance.end) !== Date.parse(end)) {
+        await updateCalendarEvent(auth, instance.googleEventId, { start, end, timeZone });
+      }
+    }
+    return { event, instances };
+  } catch (error) {
+    console.error(`[createSeriesEvent] Error lining up event ${event.googleEventId} with its meetings, cancelling it:`, error);
+    await cancelCalendarEvent(auth, event.googleEventId).catch((cancelError) =>
+      console.error('[createSeriesEvent] Error cancelling event:', cancelError)
+    );
+    throw error;
+  }
+}
+
+/**
+ * Create one recurring Google Calendar event for a series, inviting both
+ * participants once, and record a row per occurrence in the order of
+ * `occurrences`. Returns null if the organizer has not connected Google
+ * Calendar. `supabaseAdmin` must use the service role.
+ * This function must only be called from server-side code.
+ */
+export async function scheduleCalendarEventSeries(
+  supabaseAdmin: SupabaseClient,
+  organizerId: string,
+  pair: MeetingPair,
+  input: CalendarEventSeriesInput,
+  occurrences: TimeInterval[]
+): Promise<CalendarEventRow[] | null> {
+  ensureServer('scheduleCalendarEventSeries');
+  const auth = await getAuthorizedCalendarClient(supabaseAdmin, organizerId);
+  if (!auth) return null;
+
+  const { event, instances } = await createSeriesEvent(auth, await loadAttendeeEmails(supabaseAdmin, pair), input, occurrences);
+  const { data: rows, error: saveError } = await supabaseAdmin
+    .from('calendar_events')
+    .insert(instances.map((instance, index) => ({
+      organizer_id: organizerId,
+      mentee_id: pair.menteeId,
+      mentor_id: pair.mentorId,
+      google_event_id: instance.googleEventId,
+      google_recurring_event_id: event.googleEventId,
+      html_link: event.htmlLink,
+      conference_link: event.conferenceLink,
+      summary: input.summary,
+      meeting_type: input.meetingType ?? null,
+      start_at: occurrences[index].start,
+      end_at: occurrences[index].end,
+    })))
+    .select('*')
+    .returns<CalendarEventRow[]>();
+  if (saveError) {
+    console.error(`[scheduleCalendarEventSeries] Error saving event ${event.googleEventId}, cancelling it:`, saveError);
+    await cancelCalendarEvent(auth, event.googleEventId).catch((cancelError) =>
+      console.error('[scheduleCalendarEventSeries] Error cancelling unsaved event:', cancelError)
+    );
+    throw saveError;
+  }
+
+  console.log(`[scheduleCalendarEventSeries] Created event ${event.googleEventId} with ${instances.length} occurrences for mentee ${pair.menteeId} and mentor ${pair.mentorId}`);
+  const rowsByEventId = new Map((rows ?? []).map((row) => [row.google_event_id, row]));
+  return instances.map((instance) => rowsByEventId.get(instance.googleEventId)!);
+}
+
+async function loadCalendarEvents(supabaseAdmin: SupabaseClient, calendarEventIds: string[]): Promise<CalendarEventRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from('calendar_events')
+    .select('*')
+    .in('id', calendarEventIds)
+    .returns<CalendarEventRow[]>();
+  if (error) throw error;
+  const rowsById = new Map((data ?? []).map((row) => [row.id, row]));
+  return calendarEventIds.flatMap((id) => rowsById.get(id) ?? []);
+}
+
+// The first of `rows` from each recurring event; later ones go when the event is ended there.
+function firstOfEachSeries(rows: CalendarEventRow[]): CalendarEventRow[] {
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    if (!row.google_recurring_event_id || seen.has(row.google_recurring_event_id)) return false;
+    seen.add(row.google_recurring_event_id);
+    return true;
+  });
+}
+
+async function loadCalendarEvent(supabaseAdmin: SupabaseClient, calendarEventId: string): Promise<CalendarEventRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('calendar_events')
+    .select('*')
+    .eq('id', calendarEventId)
+    .maybeSingle<CalendarEventRow>();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Move a stored event to new times. Returns false if the event or the
+ * organizer's calendar connection no longer exists, so nothing was synced.
+ * This function must only be called from server-side code.
+ */
+export async function rescheduleCalendarEvent(
+  supabaseAdmin: SupabaseClient,
+  calendarEventId: string,
+  times: Pick<CalendarEventInput, 'start' | 'end' | 'timeZone'>
+): Promise<boolean> {
+  ensureServer('rescheduleCalendarEvent');
+  const row = await loadCalendarEvent(supabaseAdmin, calendarEventId);
+  const auth = row && await getAuthorizedCalendarClient(supabaseAdmin, row.organizer_id);
+  if (!row || !auth) return false;
+
+  await updateCalendarEvent(auth, row.google_event_id, times);
+  const { error } = await supabaseAdmin
+    .from('calendar_events')
+    .update({ start_at: times.start, end_at: times.end })
+    .eq('id', calendarEventId);
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * Cancel a stored event on Google Calendar, notifying attendees. The row is
+ * kept so the meeting still records that it was synced.
+ * This function must only be called from server-side code.
+ */
+export async function cancelStoredCalendarEvent(supabaseAdmin: SupabaseClient, calendarEventId: string): Promise<boolean> {
+  ensureServer('cancelStoredCalendarEvent');
+  const row = await loadCalendarEvent(supabaseAdmin, calendarEventId);
+  const auth = row && await getAuthorizedCalendarClient(supabaseAdmin, row.organizer_id);
+  if (!row || !auth) return false;
+
+  await cancelCalendarEvent(auth, row.google_event_id);
+  return true;
+}
+
+/**
+ * Move the stored occurrences in `changes`, given in start order and running to
+ * the end of their series, the way Google Calendar edits "this and following":
+ * their recurring event is ended before the first of them and one new
+ * recurring event holds them all. Rows keep their ids and point at the new
+ * occurrences. Events stored on their own are moved one by one. Returns false
+ * if the organizer's calendar connection no longer exists, so nothing was synced.
+ * This function must only be called from server-side code.
+ */
+export async function rescheduleCalendarEventSeries(
+  supabaseAdmin: SupabaseClient,
+  changes: CalendarEventTimes[],
+  input: CalendarEventSeriesInput
+): Promise<boolean> {
+  ensureServer('rescheduleCalendarEventSeries');
+  const rows = await loadCalendarEvents(supabaseAdmin, changes.map((change) => change.calendarEventId));
+  const timesById = new Map(changes.map((change) => [change.calendarEventId, change]));
+  const occurrences = rows.filter((row) => row.google_recurring_event_id);
+
+  let synced = true;
+  for (const row of rows.filter((row) => !row.google_recurring_event_id)) {
+    const { start, end } = timesById.get(row.id)!;
+    synced = (await rescheduleCalendarEvent(supabaseAdmin, row.id, { start, end, timeZone: input.timeZone })) && synced;
+  }
+  if (occurrences.length === 0) return synced;
+
+  const [first] = occurrences;
+  const auth = await getAuthorizedCalendarClient(supabaseAdmin, first.organizer_id);
+  if (!auth) return false;
+  for (const row of firstOfEachSeries(occurrences)) {
+    await endRecurringCalendarEvent(auth, row.google_event_id);
+  }
+
+  const newTimes = occurrences.map((row): TimeInterval => {
+    const { start, end } = timesById.get(row.id)!;
+    return { start, end };
+  });
+  const attendeeEmails = await loadAttendeeEmails(supabaseAdmin, { menteeId: first.mentee_id, mentorId: first.mentor_id });
+  const { event, instances } = await createSeriesEvent(auth, attendeeEmails, input, newTimes);
+  const { error } = await supabaseAdmin
+    .from('calendar_events')
+    .upsert(occurrences.map((row, index) => ({
+      ...row,
+      google_event_id: instances[index].googleEventId,
+      google_recurring_event_id: event.googleEventId,
+      html_link: event.htmlLink,
+      conference_link: event.conferenceLink,
+      start_at: newTimes[index].start,
+      end_at: newTimes[index].end,
+    })));
+  if (error) throw error;
+
+  console.log(`[rescheduleCalendarEventSeries] Moved ${occurrences.length} occurrences to event ${event.googleEventId}`);
+  return synced;
+}
+
+/**
+ * Cancel the stored occurrences in `calendarEventIds`, given in start order and
+ * running to the end of their series, by ending each recurring event before
+ * the first of them. Events stored on their own are cancelled one by one.
+ * Returns false if an organizer's calendar connection no longer exists.
+ * This function must only be called from server-side code.
+ */
+export async function cancelCalendarEventSeries(supabaseAdmin: SupabaseClient, calendarEventIds: string[]): Promise<boolean> {
+  ensureServer('cancelCalendarEventSeries');
+  const rows = await loadCalendarEvents(supabaseAdmin, calendarEventIds);
+
+  let synced = true;
+  for (const row of rows.filter((row) => !row.google_recurring_event_id)) {
+    synced = (await cancelStoredCalendarEvent(supabaseAdmin, row.id)) && synced;
+  }
+  for (const row of firstOfEachSeries(rows)) {
+    const auth = await getAuthorizedCalendarClient(supabaseAdmin, row.organizer_id);
+    if (!auth) {
+      synced = false;
+      continue;
+    }
+    await endRecurringCalendarEvent(auth, row.google_event_id);
+  }
+  return synced;
+}
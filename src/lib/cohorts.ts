@@ -0,0 +1,197 @@
+// src/lib/cohorts.ts
+// Loading a cohort's participants from Supabase and persisting matching results.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { AssignmentType, MatchAssignment, MatchingMentee, MatchingMentor } from './matching.ts';
+import { buildProfileEmbeddingText, UserOnboardingDetails } from './profiles.ts';
+import {
+  MatchScoreBreakdown,
+  MatchScoringConfig,
+  MatchScoringConfigOverrides,
+  resolveMatchScoringConfig,
+} from './scoring.ts';
+
+// Row in the 'mentor_assignments' table; one current assignment per mentee per cohort.
+export interface MentorAssignmentRow {
+  cohort_id: string;
+  mentee_id: string;
+  mentor_id: string | null;
+  score: number | null;
+  score_breakdown: MatchScoreBreakdown | null; // jsonb; per-component scores behind `score`
+  assignment_type: AssignmentType;
+  matched_at: string; // timestamptz
+}
+
+// Row in the 'cohorts' table; each cohort is one mentoring program run.
+export interface CohortRow {
+  id: string;
+  name: string;
+  match_scoring: MatchScoringConfigOverrides | null; // jsonb; per-program weights and constraints, checked by resolveMatchScoringConfig
+  created_at: string; // timestamptz
+}
+
+export interface CohortParticipants {
+  mentees: MatchingMentee[];
+  mentors: MatchingMentor[];
+}
+
+export async function loadCohortParticipants(
+  supabase: SupabaseClient,
+  cohortId: string
+): Promise<CohortParticipants> {
+  const { data, error } = await supabase
+    .from('user_onboarding_details')
+    .select('*')
+    .eq('cohort_id', cohortId)
+    .returns<UserOnboardingDetails[]>();
+
+  if (error) {
+    console.error(`[loadCohortParticipants] Error loading cohort "${cohortId}":`, error);
+    throw new Error('Failed to load cohort participants.');
+  }
+
+  const profiles = data ?? [];
+  return {
+    mentees: profiles
+      .filter((profile) => profile.role === 'mentee')
+      .map((profile) => ({
+        id: profile.user_id,
+        name: profile.full_name,
+        searchText: buildProfileEmbeddingText(profile),
+        profile,
+      }))
+      .filter((mentee) => mentee.searchText.trim() !== ''),
+    mentors: profiles
+      .filter((profile) => profile.role === 'mentor')
+      .map((profile) => ({
+        id: profile.user_id,
+        name: profile.full_name,
+        capacity: profile.mentee_capacity ?? undefined,
+        profile,
+      })),
+  };
+}
+
+/**
+ * Load the cohort's hybrid scoring configuration. Cohorts without one, or
+ * without a row at all, use the default weights.
+ */
+export async function loadCohortScoringConfig(
+  supabase: SupabaseClient,
+  cohortId: string
+): Promise<MatchScoringConfig> {
+  const { data, error } = await supabase
+    .from('cohorts')
+    .select('match_scoring')
+    .eq('id', cohortId)
+    .maybeSingle<Pick<CohortRow, 'match_scoring'>>();
+
+  if (error) {
+    console.error(`[loadCohortScoringConfig] Error loading scoring config for cohort "${cohortId}":`, error);
+    throw new Error('Failed to load the cohort scoring configuration.');
+  }
+  return resolveMatchScoringConfig(data?.match_scoring);
+}
+
+export async function saveCohortAssignments(
+  supabase: SupabaseClient,
+  cohortId: string,
+  assignments: MatchAssignment[]
+): Promise<MentorAssignmentRow[]> {
+  const matchedAt = new Date().toISOString();
+  const rows: MentorAssignmentRow[] = assignments.map((assignment) => ({
+    cohort_id: cohortId,
+    mentee_id: assignment.menteeId,
+    mentor_id: assignment.mentorId,
+    score: assignment.score,
+    score_breakdown: assignment.breakdown,
+    assignment_type: assignment.assignmentType,
+    matched_at: matchedAt,
+  }));
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('mentor_assignments')
+    .upsert(rows, { onConflict: 'cohort_id,mentee_id' })
+    .select()
+    .returns<MentorAssignmentRow[]>();
+
+  if (error) {
+    console.error(`[saveCohortAssignments] Error saving assignments for cohort "${cohortId}":`, error);
+    throw new Error('Failed to save mentor assignments.');
+  }
+  return data ?? rows;
+}
+
+/**
+ * Latest assignment involving the user, as mentee or mentor, optionally
+ * restricted to a specific partner. Mentors with several mentees get the most
+ * recent match unless they pass a partner id.
+ */
+export async function findUserAssignment(
+  supabase: SupabaseClient,
+  userId: string,
+  partnerId?: string
+): Promise<MentorAssignmentRow | null> {
+  let query = supabase.from('mentor_assignments').select('*').not('mentor_id', 'is', null);
+  query = partnerId
+    ? query.or(`and(mentee_id.eq.${userId},mentor_id.eq.${partnerId}),and(mentor_id.eq.${userId},mentee_id.eq.${partnerId})`)
+    : query.or(`mentee_id.eq.${userId},mentor_id.eq.${userId}`);
+
+  const { data, error } = await query
+    .order('matched_at', { ascending: false })
+    .limit(1)
+    .maybeSingle<MentorAssignmentRow>();
+
+  if (error) {
+    console.error(`[findUserAssignment] Error loading assignment for user "${userId}":`, error);
+    throw new Error('Failed to load the mentor assignment.');
+  }
+  return data;
+}
+
+// Someone the user is matched with, for choosing who to meet.
+export interface MatchPartner {
+  id: string;
+  name: string;
+  cohortId: string;
+}
+
+/**
+ * Everyone the user is currently matched with, latest match first: a mentee's
+ * mentor, or a mentor's mentees. Partner names are not readable by the user
+ * under RLS, so `supabaseAdmin` must use the service role.
+ */
+export async function listUserPartners(supabaseAdmin: SupabaseClient, userId: string): Promise<MatchPartner[]> {
+  const { data, error } = await supabaseAdmin
+    .from('mentor_assignments')
+    .select('*')
+    .not('mentor_id', 'is', null)
+    .or(`mentee_id.eq.${userId},mentor_id.eq.${userId}`)
+    .order('matched_at', { ascending: false })
+    .returns<MentorAssignmentRow[]>();
+  if (error) {
+    console.error(`[listUserPartners] Error loading assignments for user "${userId}":`, error);
+    throw new Error('Failed to load your matches.');
+  }
+
+  // A pair matched again in a later cohort is listed once, with its latest cohort.
+  const cohortByPartner = new Map<string, string>();
+  for (const assignment of data ?? []) {
+    const partnerId = assignment.mentee_id === userId ? assignment.mentor_id! : assignment.mentee_id;
+    if (!cohortByPartner.has(partnerId)) cohortByPartner.set(partnerId, assignment.cohort_id);
+  }
+  if (cohortByPartner.size === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabaseAdmin
+    .from('user_onboarding_details')
+    .select('user_id, full_name')
+    .in('user_id', [...cohortByPartner.keys()])
+    .returns<Pick<UserOnboardingDetails, 'user_id' | 'full_name'>[]>();
+  if (profilesError) {
+    console.error(`[listUserPartners] Error loading partner names for user "${userId}":`, profilesError);
+    throw new Error('Failed to load your matches.');
+  }
+  const names = new Map(profiles?.map((profile) => [profile.user_id, profile.full_name]));
+  return [...cohortByPartner].map(([id, cohortId]) => ({ id, name: names.get(id) ?? 'Your match', cohortId }));
+}
@@ -0,0 +1,66 @@
+// src/lib/dashboardAuth.ts
+// getServerSideProps guard shared by the /dashboard pages. middleware.ts already
+// redirects signed-out visitors; this re-checks the session, sends users who
+// have not finished onboarding to the wizard, and passes the profile to the page.
+import type { GetServerSideProps, GetServerSidePropsContext, GetServerSidePropsResult } from 'next';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { loginPath, ONBOARDING_PATH } from './authRedirect.ts';
+import { UserOnboardingDetails } from './profiles.ts';
+import { createSupabaseServerClient } from './supabaseServer.ts';
+
+export type DashboardUser = {
+  id: string;
+  email: string | null;
+};
+
+// Props every dashboard page receives.
+export type DashboardPageProps = {
+  user: DashboardUser;
+  profile: UserOnboardingDetails;
+};
+
+export type DashboardContext = DashboardPageProps & {
+  supabase: SupabaseClient; // Authenticated as the user, so Row Level Security applies
+};
+
+type DashboardPropsLoader<P> = (
+  context: GetServerSidePropsContext,
+  dashboard: DashboardContext
+) => Promise<GetServerSidePropsResult<P>>;
+
+/**
+ * Build a dashboard page's getServerSideProps. Pages that need more data pass
+ * `loadProps`, which runs only for signed-in, onboarded users; its props are
+ * merged with the user and profile.
+ */
+export function withDashboardAuth<P extends Record<string, unknown> = Record<never, never>>(
+  loadProps?: DashboardPropsLoader<P>
+): GetServerSideProps<DashboardPageProps & P> {
+  return async (context) => {
+    const supabase = createSupabaseServerClient(context.req, context.res);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { redirect: { destination: loginPath(context.resolvedUrl), permanent: false } };
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('user_onboarding_details')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle<UserOnboardingDetails>();
+    if (profileError) throw profileError;
+    if (!profile) {
+      return { redirect: { destination: ONBOARDING_PATH, permanent: false } };
+    }
+
+    const dashboard: DashboardPageProps = { user: { id: user.id, email: user.email ?? null }, profile };
+    if (!loadProps) {
+      return { props: dashboard as DashboardPageProps & P };
+    }
+
+    const result = await loadProps(context, { ...dashboard, supabase });
+    if (!('props' in result)) return result;
+    return { ...result, props: { ...dashboard, ...(await result.props) } };
+  };
+}
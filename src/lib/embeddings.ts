@@ -0,0 +1,123 @@
+import { ensureServer } from "./env.ts";
+import {
+  createEmbedding,
+  createEmbeddings,
+  OPENAI_EMBEDDING_DIMENSION,
+  OPENAI_EMBEDDING_MODEL,
+} from "./openai.ts";
+
+/**
+ * Embedding provider abstraction used by the matching pipeline.
+ *
+ * `openai` calls the OpenAI embeddings API; `hashing` is a deterministic
+ * bag-of-words embedder that needs no network access, for offline
+ * development and tests. The provider is chosen with the EMBEDDING_PROVIDER
+ * environment variable, and the vector index dimension follows it.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_HASHING_DIMENSION = 512;
+
+// --- OpenAI Provider ---
+export function createOpenAIEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: "openai",
+    model: OPENAI_EMBEDDING_MODEL,
+    dimension: OPENAI_EMBEDDING_DIMENSION,
+    embed: (text) => createEmbedding(text),
+    embedBatch: (texts) => createEmbeddings(texts),
+  };
+}
+
+// --- Hashing Provider ---
+// Feature hashing over word unigrams and bigrams: each token is hashed into a
+// bucket with a hashed sign, weighted by log term frequency, then L2-normalised
+// so cosine similarity behaves like it does for model embeddings.
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "i", "in",
+  "is", "it", "its", "my", "of", "on", "or", "our", "that", "the", "their", "to", "was",
+  "we", "with", "you", "your",
+]);
+
+function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+  const bigrams = words.slice(1).map((word, i) => `${words[i]} ${word}`);
+  return [...words, ...bigrams];
+}
+
+// 32-bit FNV-1a, seeded so the bucket and sign hashes are independent.
+function fnv1a(token: string, seed: number): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function hashingEmbedding(text: string, dimension: number): number[] {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  const vector = new Array<number>(dimension).fill(0);
+  for (const [token, count] of counts) {
+    const bucket = fnv1a(token, 0) % dimension;
+    const sign = fnv1a(token, 0x9e3779b9) & 1 ? 1 : -1;
+    vector[bucket] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+export function createHashingEmbeddingProvider(dimension: number = DEFAULT_HASHING_DIMENSION): EmbeddingProvider {
+  if (!Number.isInteger(dimension) || dimension <= 0) {
+    throw new Error(`Hashing embedding dimension must be a positive integer, got ${dimension}.`);
+  }
+  return {
+    name: "hashing",
+    model: `hashing-bow-${dimension}`,
+    dimension,
+    embed: async (text) => hashingEmbedding(text, dimension),
+    embedBatch: async (texts) => texts.map((text) => hashingEmbedding(text, dimension)),
+  };
+}
+
+// --- Provider Selection ---
+let _embeddingProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the embedding provider configured by EMBEDDING_PROVIDER ("openai" by default).
+ * HASHING_EMBEDDING_DIMENSION overrides the hashing provider's dimension.
+ * This function must only be called from server-side code.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  ensureServer("getEmbeddingProvider");
+  if (!_embeddingProvider) {
+    const configured = (process.env.EMBEDDING_PROVIDER || "openai").trim().toLowerCase();
+    if (configured === "openai") {
+      _embeddingProvider = createOpenAIEmbeddingProvider();
+    } else if (configured === "hashing") {
+      const dimension = process.env.HASHING_EMBEDDING_DIMENSION
+        ? Number(process.env.HASHING_EMBEDDING_DIMENSION)
+        : DEFAULT_HASHING_DIMENSION;
+      _embeddingProvider = createHashingEmbeddingProvider(dimension);
+    } else {
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${configured}". Expected "openai" or "hashing".`);
+    }
+    console.log(`[getEmbeddingProvider] Using ${_embeddingProvider.name} embeddings (${_embeddingProvider.model}, ${_embeddingProvider.dimension} dimensions).`);
+  }
+  return _embeddingProvider;
+}
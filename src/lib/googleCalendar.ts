@@ -0,0 +1,366 @@
+// src/lib/googleCalendar.ts
+// Google Calendar connection: the incremental-consent OAuth flow started from
+// /api/auth/google and the per-user refresh tokens it stores.
+import { randomUUID } from 'crypto';
+import { Auth, calendar_v3, google } from 'googleapis';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { ensureServer } from './env.ts';
+import { decryptSecret, encryptSecret } from './tokenCrypto.ts';
+
+export const GOOGLE_CALENDAR_SCOPES = ['https://www.googleapis.com/auth/calendar.events'];
+// Identity scopes are requested alongside so we can show which Google account is connected.
+const GOOGLE_IDENTITY_SCOPES = ['openid', 'email'];
+
+export const GOOGLE_CALENDAR_CALLBACK_PATH = '/api/auth/google/callback';
+export const GOOGLE_OAUTH_STATE_COOKIE = 'google_oauth_state';
+
+// Row in the 'google_calendar_connections' table; one per user. Accessed with
+// the service role only, since it holds credentials.
+export interface GoogleCalendarConnectionRow {
+  user_id: string; // Primary key, foreign key to auth.users.id
+  google_email: string | null;
+  encrypted_refresh_token: string; // See tokenCrypto.ts
+  scopes: string[];
+  connected_at: string; // timestamptz
+  updated_at: string; // timestamptz
+}
+
+// Event details sent to Google Calendar.
+export interface CalendarEventInput {
+  summary: string;
+  description?: string | null;
+  meetingType?: string | null;
+  start: string; // ISO 8601 instant
+  end: string; // ISO 8601 instant
+  timeZone?: string | null; // IANA zone the event is shown in on Google Calendar; required with `recurrence`
+  recurrence?: string[]; // RRULE lines; `start` and `end` are then the first occurrence
+  attendeeEmails: string[];
+}
+
+export interface CalendarEventDetails {
+  googleEventId: string;
+  htmlLink: string | null;
+  conferenceLink: string | null; // Google Meet link
+}
+
+// One occurrence of a recurring event. Its id works with updateCalendarEvent and
+// cancelCalendarEvent to change that occurrence alone.
+export interface CalendarEventInstance {
+  googleEventId: string;
+  start: string; // ISO 8601 instant
+  end: string; // ISO 8601 instant
+}
+
+// What the UI is told about a connection; never includes the token.
+export interface GoogleCalendarConnectionStatus {
+  connected: boolean;
+  googleEmail: string | null;
+  connectedAt: string | null;
+}
+
+export function createGoogleOAuthClient(redirectUri?: string): Auth.OAuth2Client {
+  ensureServer('createGoogleOAuthClient');
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error('Google OAuth credentials not found. Did you set GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET?');
+  }
+  return new google.auth.OAuth2(clientId, clientSecret, redirectUri);
+}
+
+/**
+ * URL of Google's consent screen asking for Calendar access in addition to
+ * whatever the user already granted (incremental authorization).
+ */
+export function buildCalendarConsentUrl(client: Auth.OAuth2Client, state: string, loginHint?: string): string {
+  return client.generateAuthUrl({
+    access_type: 'offline', // Needed for a refresh token
+    prompt: 'consent', // Google only returns a refresh token on consent
+    include_granted_scopes: true,
+    scope: [...GOOGLE_IDENTITY_SCOPES, ...GOOGLE_CALENDAR_SCOPES],
+    state,
+    login_hint: loginHint,
+  });
+}
+
+export function hasCalendarScopes(grantedScopes: string[]): boolean {
+  return GOOGLE_CALENDAR_SCOPES.every((scope) => grantedScopes.includes(scope));
+}
+
+async function googleEmailFromTokens(client: Auth.OAuth2Client, tokens: Auth.Credentials): Promise<string | null> {
+  if (!tokens.id_token) return null;
+  try {
+    const ticket = await client.verifyIdToken({ idToken: tokens.id_token, audience: process.env.GOOGLE_CLIENT_ID });
+    return ticket.getPayload()?.email ?? null;
+  } catch (error) {
+    console.warn('[saveCalendarConnection] Could not read the Google account email:', error);
+    return null;
+  }
+}
+
+/**
+ * Exchange the consent callback's code and store the encrypted refresh token.
+ * `supabaseAdmin` must use the service role.
+ * This function must only be called from server-side code.
+ */
+export async function saveCalendarConnection(
+  supabaseAdmin: SupabaseClient,
+  client: Auth.OAuth2Client,
+  userId: string,
+  code: string
+): Promise<GoogleCalendarConnectionStatus> {
+  ensureServer('saveCalendarConnection');
+  const { tokens } = await client.getToken(code);
+  const scopes = tokens.scope?.split(' ') ?? [];
+  if (!hasCalendarScopes(scopes)) {
+    throw new Error('Calendar access was not granted');
+  }
+  if (!tokens.refresh_token) {
+    throw new Error('Google did not return a refresh token');
+  }
+
+  const now = new Date().toISOString();
+  const row: GoogleCalendarConnectionRow = {
+    user_id: userId,
+    google_email: await googleEmailFromTokens(client, tokens),
+    encrypted_refresh_token: encryptSecret(tokens.refresh_token),
+    scopes,
+    connected_at: now,
+    updated_at: now,
+  };
+  const { error } = await supabaseAdmin
+    .from('google_calendar_connections')
+    .upsert(row, { onConflict: 'user_id' });
+  if (error) throw error;
+
+  console.log(`[saveCalendarConnection] Connected Google Calendar for user ${userId}`);
+  return { connected: true, googleEmail: row.google_email, connectedAt: row.connected_at };
+}
+
+async function loadCalendarConnection(
+  supabaseAdmin: SupabaseClient,
+  userId: string
+): Promise<GoogleCalendarConnectionRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('google_calendar_connections')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle<GoogleCalendarConnectionRow>();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * This function must only be called from server-side code.
+ */
+export async function getCalendarConnectionStatus(
+  supabaseAdmin: SupabaseClient,
+  userId: string
+): Promise<GoogleCalendarConnectionStatus> {
+  ensureServer('getCalendarConnectionStatus');
+  const row = await loadCalendarConnection(supabaseAdmin, userId);
+  return { connected: !!row, googleEmail: row?.google_email ?? null, connectedAt: row?.connected_at ?? null };
+}
+
+/**
+ * Revoke the stored refresh token with Google and delete the connection.
+ * Revocation failures are logged only; the token is unusable once deleted.
+ * This function must only be called from server-side code.
+ */
+export async function disconnectCalendar(supabaseAdmin: SupabaseClient, userId: string): Promise<void> {
+  ensureServer('disconnectCalendar');
+  const row = await loadCalendarConnection(supabaseAdmin, userId);
+  if (!row) return;
+
+  try {
+    await createGoogleOAuthClient().revokeToken(decryptSecret(row.encrypted_refresh_token));
+  } catch (error) {
+    console.warn(`[disconnectCalendar] Could not revoke Google token for user ${userId}:`, error);
+  }
+
+  const { error } = await supabaseAdmin
+    .from('google_calendar_connections')
+    .delete()
+    .eq('user_id', userId);
+  if (error) throw error;
+  console.log(`[disconnectCalendar] Disconnected Google Calendar for user ${userId}`);
+}
+
+/**
+ * OAuth client authorized with the user's stored refresh token, or null if the
+ * user has not connected Google Calendar.
+ * This function must only be called from server-side code.
+ */
+export async function getAuthorizedCalendarClient(
+  supabaseAdmin: SupabaseClient,
+  userId: string
+): Promise<Auth.OAuth2Client | null> {
+  ensureServer('getAuthorizedCalendarClient');
+  const row = await loadCalendarConnection(supabaseAdmin, userId);
+  if (!row) return null;
+  const client = createGoogleOAuthClient();
+  client.setCredentials({ refresh_token: decryptSecret(row.encrypted_refresh_token) });
+  return client;
+}
+
+/**
+ * True when Google rejected the stored refresh token, e.g. because the user
+ * revoked access from their Google account. They need to connect again.
+ */
+export function isRevokedGrantError(error: unknown): boolean {
+  return error instanceof Error && /invalid_grant/.test(error.message);
+}
+
+function describeEvent(input: Pick<CalendarEventInput, 'description' | 'meetingType'>): string | undefined {
+  const parts = [input.meetingType ? `Meeting type: ${input.meetingType}` : '', input.description?.trim() ?? ''];
+  return parts.filter(Boolean).join('\n\n') || undefined;
+}
+
+function toEventDetails(event: calendar_v3.Schema$Event): CalendarEventDetails {
+  if (!event.id) throw new Error('Google Calendar did not return an event id');
+  const videoEntry = event.conferenceData?.entryPoints?.find((entry) => entry.entryPointType === 'video');
+  return {
+    googleEventId: event.id,
+    htmlLink: event.htmlLink ?? null,
+    conferenceLink: event.hangoutLink ?? videoEntry?.uri ?? null,
+  };
+}
+
+/**
+ * Create an event on the organizer's primary calendar with a Google Meet link
+ * and invite the attendees.
+ * This function must only be called from server-side code.
+ */
+export async function createCalendarEvent(
+  auth: Auth.OAuth2Client,
+  input: CalendarEventInput
+): Promise<CalendarEventDetails> {
+  ensureServer('createCalendarEvent');
+  const calendar = google.calendar({ version: 'v3', auth });
+  const { data } = await calendar.events.insert({
+    calendarId: 'primary',
+    conferenceDataVersion: 1, // Required for the Meet link to be created
+    sendUpdates: 'all',
+    requestBody: {
+      summary: input.summary,
+      description: describeEvent(input),
+      start: { dateTime: input.start, timeZone: input.timeZone ?? undefined },
+      end: { dateTime: input.end, timeZone: input.timeZone ?? undefined },
+      recurrence: input.recurrence,
+      attendees: input.attendeeEmails.map((email) => ({ email })),
+      conferenceData: {
+        createRequest: { requestId: randomUUID(), conferenceSolutionKey: { type: 'hangoutsMeet' } },
+      },
+    },
+  });
+  return toEventDetails(data);
+}
+
+/**
+ * Apply changes (e.g. a reschedule) to an existing event and notify attendees.
+ * The event description is rebuilt from `description` and `meetingType`, so
+ * pass both when changing either.
+ * This function must only be called from server-side code.
+ */
+export async function updateCalendarEvent(
+  auth: Auth.OAuth2Client,
+  googleEventId: string,
+  changes: Partial<Omit<CalendarEventInput, 'attendeeEmails' | 'recurrence'>>
+): Promise<CalendarEventDetails> {
+  ensureServer('updateCalendarEvent');
+  const calendar = google.calendar({ version: 'v3', auth });
+  const timeZone = changes.timeZone ?? undefined;
+  const { data } = await calendar.events.patch({
+    calendarId: 'primary',
+    eventId: googleEventId,
+    sendUpdates: 'all',
+    requestBody: {
+      summary: changes.summary,
+      description: changes.description !== undefined || changes.meetingType !== undefined ? describeEvent(changes) : undefined,
+      start: changes.start ? { dateTime: changes.start, timeZone } : undefined,
+      end: changes.end ? { dateTime: changes.end, timeZone } : undefined,
+    },
+  });
+  return toEventDetails(data);
+}
+
+/**
+ * Cancel an event and notify attendees. Events already deleted on Google's
+ * side are treated as cancelled.
+ * This function must only be called from server-side code.
+ */
+export async function cancelCalendarEvent(auth: Auth.OAuth2Client, googleEventId: string): Promise<void> {
+  ensureServer('cancelCalendarEvent');
+  const calendar = google.calendar({ version: 'v3', auth });
+  try {
+    await calendar.events.delete({ calendarId: 'primary', eventId: googleEventId, sendUpdates: 'all' });
+  } catch (error) {
+    const status = (error as { code?: number }).code;
+    if (status === 404 || status === 410) return;
+    throw error;
+  }
+}
+
+/**
+ * Occurrences of a recurring event in start order, leaving out cancelled ones.
+ * This function must only be called from server-side code.
+ */
+export async function listCalendarEventInstances(
+  auth: Auth.OAuth2Client,
+  googleEventId: string
+): Promise<CalendarEventInstance[]> {
+  ensureServer('listCalendarEventInstances');
+  const calendar = google.calendar({ version: 'v3', auth });
+  const instances: CalendarEventInstance[] = [];
+  let pageToken: string | undefined;
+  do {
+    const { data } = await calendar.events.instances({ calendarId: 'primary', eventId: googleEventId, maxResults: 250, pageToken });
+    for (const item of data.items ?? []) {
+      if (!item.id || !item.start?.dateTime || !item.end?.dateTime) continue;
+      instances.push({
+        googleEventId: item.id,
+        start: new Date(item.start.dateTime).toISOString(),
+        end: new Date(item.end.dateTime).toISOString(),
+      });
+    }
+    pageToken = data.nextPageToken ?? undefined;
+  } while (pageToken);
+  return instances.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+// RRULE UNTIL value, e.g. '20250301T085959Z'
+function recurrenceUntil(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * End a recurring event just before one of its occurrences, given by instance
+ * id, so that occurrence and every later one are removed, and notify attendees.
+ * The whole event is cancelled when the occurrence is its first.
+ * This function must only be called from server-side code.
+ */
+export async function endRecurringCalendarEvent(auth: Auth.OAuth2Client, instanceEventId: string): Promise<void> {
+  ensureServer('endRecurringCalendarEvent');
+  const calendar = google.calendar({ version: 'v3', auth });
+  const { data: instance } = await calendar.events.get({ calendarId: 'primary', eventId: instanceEventId });
+  const originalStart = instance.originalStartTime?.dateTime;
+  if (!instance.recurringEventId || !originalStart) {
+    throw new Error(`Event ${instanceEventId} is not an occurrence of a recurring event`);
+  }
+
+  const { data: event } = await calendar.events.get({ calendarId: 'primary', eventId: instance.recurringEventId });
+  if (!event.start?.dateTime || Date.parse(originalStart) <= Date.parse(event.start.dateTime)) {
+    return cancelCalendarEvent(auth, instance.recurringEventId);
+  }
+  const until = `UNTIL=${recurrenceUntil(new Date(Date.parse(originalStart) - 1000))}`;
+  const recurrence = (event.recurrence ?? []).map((line) => line.startsWith('RRULE:')
+    ? `RRULE:${[...line.slice('RRULE:'.length).split(';').filter((part) => !/^(COUNT|UNTIL)=/.test(part)), until].join(';')}`
+    : line);
+  await calendar.events.patch({
+    calendarId: 'primary',
+    eventId: instance.recurringEventId,
+    sendUpdates: 'all',
+    requestBody: { recurrence },
+  });
+}
@@ -0,0 +1,181 @@
+// src/lib/matchExplainer.ts
+// "Why you match" explanations for a mentee–mentor pair, shown by MatchProfile.
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { ensureServer } from './env.ts';
+import { generateResponse } from './openai.ts';
+import { formatOptionIds, UserOnboardingDetails } from './profiles.ts';
+
+export type MatchExplanationSource = 'llm' | 'template';
+
+// Row in the 'match_explanations' table; one cached explanation per pair.
+export interface MatchExplanationRow {
+  mentee_id: string;
+  mentor_id: string;
+  profile_fingerprint: string; // Hash of both profiles' explained fields; a mismatch means the cache is stale
+  alignment_summary: string;
+  source: MatchExplanationSource;
+  generated_at: string; // timestamptz
+}
+
+export interface MatchExplanation {
+  menteeId: string;
+  mentorId: string;
+  matchPercentage: number;
+  alignmentSummary: string;
+  source: MatchExplanationSource;
+}
+
+/**
+ * Convert a match score to the percentage shown in the UI. Scores are either
+ * cosine similarities in [-1, 1] or hybrid scores in [0, 1]; negatives show as 0%.
+ */
+export function scoreToMatchPercentage(score: number | null | undefined): number {
+  if (typeof score !== 'number' || Number.isNaN(score)) return 0;
+  return Math.round(Math.min(1, Math.max(0, score)) * 100);
+}
+
+function explainedFields(profile: UserOnboardingDetails) {
+  return {
+    user_id: profile.user_id,
+    full_name: profile.full_name,
+    career_stage: profile.career_stage ?? null,
+    industries: [...(profile.industries ?? [])].sort(),
+    languages: [...(profile.languages ?? [])].sort(),
+    short_term_goals: profile.short_term_goals ?? null,
+    long_term_goals: profile.long_term_goals ?? null,
+    help_areas: [...(profile.help_areas_seeking ?? profile.help_areas_offering ?? [])].sort(),
+    expertise: profile.expertise ?? null,
+  };
+}
+
+export function matchProfileFingerprint(mentee: UserOnboardingDetails, mentor: UserOnboardingDetails): string {
+  return createHash('sha256')
+    .update(JSON.stringify([explainedFields(mentee), explainedFields(mentor)]))
+    .digest('hex');
+}
+
+function intersect(a: string[] | null | undefined, b: string[] | null | undefined): string[] {
+  const other = new Set(b ?? []);
+  return (a ?? []).filter((id) => other.has(id));
+}
+
+function firstName(profile: UserOnboardingDetails): string {
+  return profile.full_name.split(' ')[0] || profile.full_name;
+}
+
+/**
+ * Deterministic summary built from the structured fields both users filled in.
+ * Used when the LLM is unavailable.
+ */
+export function buildTemplateAlignmentSummary(mentee: UserOnboardingDetails, mentor: UserOnboardingDetails): string {
+  const sentences: string[] = [];
+  const sharedHelpAreas = intersect(mentee.help_areas_seeking, mentor.help_areas_offering);
+  if (sharedHelpAreas.length > 0) {
+    sentences.push(`${firstName(mentor)} can help with ${formatOptionIds(sharedHelpAreas)}, which ${firstName(mentee)} is looking for.`);
+  }
+  const sharedIndustries = intersect(mentee.industries, mentor.industries);
+  if (sharedIndustries.length > 0) {
+    sentences.push(`You share an interest in ${formatOptionIds(sharedIndustries)}.`);
+  }
+  const sharedLanguages = intersect(mentee.languages, mentor.languages).filter((id) => id !== 'other');
+  if (sharedLanguages.length > 0) {
+    sentences.push(`You both speak ${formatOptionIds(sharedLanguages)}.`);
+  }
+  if (mentor.career_stage) {
+    sentences.push(`${firstName(mentor)} brings ${formatOptionIds([mentor.career_stage])} experience.`);
+  }
+  return sentences.length > 0
+    ? sentences.join(' ')
+    : `${firstName(mentor)} was matched with ${firstName(mentee)} based on the goals and experience in your profiles.`;
+}
+
+function describeForPrompt(label: string, profile: UserOnboardingDetails): string {
+  const lines = [
+    `${label}: ${profile.full_name}`,
+    profile.career_stage ? `Career stage: ${formatOptionIds([profile.career_stage])}` : '',
+    profile.industries?.length ? `Industries: ${formatOptionIds(profile.industries)}` : '',
+    profile.languages?.length ? `Languages: ${formatOptionIds(profile.languages)}` : '',
+    profile.short_term_goals ? `Short-term goals: ${profile.short_term_goals}` : '',
+    profile.long_term_goals ? `Long-term goals: ${profile.long_term_goals}` : '',
+    profile.help_areas_seeking?.length ? `Seeking help with: ${formatOptionIds(profile.help_areas_seeking)}` : '',
+    profile.help_areas_offering?.length ? `Can help with: ${formatOptionIds(profile.help_areas_offering)}` : '',
+    profile.expertise ? `Expertise: ${profile.expertise}` : '',
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+export function buildAlignmentPrompt(mentee: UserOnboardingDetails, mentor: UserOnboardingDetails): string {
+  return [
+    'Write a "Why you match" summary for a mentee and the mentor they were matched with.',
+    'Use only the facts in the two profiles below; do not invent experience, employers or interests.',
+    'Write two or three sentences addressed to both people ("You both..."), without a heading or bullet points.',
+    '',
+    describeForPrompt('Mentee', mentee),
+    '',
+    describeForPrompt('Mentor', mentor),
+  ].join('\n');
+}
+
+async function generateAlignmentSummary(
+  mentee: UserOnboardingDetails,
+  mentor: UserOnboardingDetails
+): Promise<{ summary: string; source: MatchExplanationSource }> {
+  try {
+    const summary = (await generateResponse(buildAlignmentPrompt(mentee, mentor))).trim();
+    if (summary) return { summary, source: 'llm' };
+  } catch (error) {
+    console.warn('[explainMatch] LLM summary unavailable, using template:', error);
+  }
+  return { summary: buildTemplateAlignmentSummary(mentee, mentor), source: 'template' };
+}
+
+/**
+ * Explain a match. The summary is cached per pair in 'match_explanations' and
+ * regenerated when either profile changes. Template summaries are not cached,
+ * so the next request tries the LLM again.
+ * This function must only be called from server-side code.
+ */
+export async function explainMatch(
+  supabase: SupabaseClient,
+  mentee: UserOnboardingDetails,
+  mentor: UserOnboardingDetails,
+  score: number | null
+): Promise<MatchExplanation> {
+  ensureServer('explainMatch');
+  const fingerprint = matchProfileFingerprint(mentee, mentor);
+  const base = { menteeId: mentee.user_id, mentorId: mentor.user_id, matchPercentage: scoreToMatchPercentage(score) };
+
+  const { data: cached, error: cacheError } = await supabase
+    .from('match_explanations')
+    .select('*')
+    .eq('mentee_id', mentee.user_id)
+    .eq('mentor_id', mentor.user_id)
+    .maybeSingle<MatchExplanationRow>();
+  if (cacheError) {
+    console.error('[explainMatch] Error reading cached explanation:', cacheError);
+  } else if (cached && cached.profile_fingerprint === fingerprint) {
+    return { ...base, alignmentSummary: cached.alignment_summary, source: cached.source };
+  }
+
+  const { summary, source } = await generateAlignmentSummary(mentee, mentor);
+  if (source === 'llm') {
+    const row: MatchExplanationRow = {
+      mentee_id: mentee.user_id,
+      mentor_id: mentor.user_id,
+      profile_fingerprint: fingerprint,
+      alignment_summary: summary,
+      source,
+      generated_at: new Date().toISOString(),
+    };
+    const { error: saveError } = await supabase
+      .from('match_explanations')
+      .upsert(row, { onConflict: 'mentee_id,mentor_id' });
+    if (saveError) {
+      // The explanation is still usable; it will be regenerated next time.
+      console.error('[explainMatch] Error caching explanation:', saveError);
+    }
+  }
+  return { ...base, alignmentSummary: summary, source };
+}
@@ -0,0 +1,353 @@
+import { ensureServer } from "./env.ts";
+import { solveMinCostAssignment } from "./hungarian.ts";
+import {
+  findSimilarResponses,
+  PineconeMatch,
+  PineconeQueryFilter,
+  StorableMetadata,
+} from "./pinecone.ts";
+import { METADATA_TYPE_BIG, UserOnboardingDetails } from "./profiles.ts";
+import { MatchScoreBreakdown, MatchScoringConfig, scoreMatch } from "./scoring.ts";
+
+// --- Mentor–Mentee Matching Engine ---
+// Two phases: fetch the top-K most similar mentors ("Bigs") for every mentee
+// ("Little"), then assign mentors with one of two strategies:
+//  - greedy: mentees with the fewest options pick first (fast, can be suboptimal)
+//  - optimal: a global min-cost assignment over the whole similarity matrix
+
+export enum AssignmentType {
+  Unique = "Unique", // Mentor assigned within their capacity
+  SharedFallback = "Shared (Fallback)", // Every candidate was full; best candidate assigned beyond capacity
+  NoMatchFound = "No Suitable Pinecone Match Found",
+}
+
+export enum AssignmentStrategy {
+  Greedy = "greedy",
+  Optimal = "optimal",
+}
+
+export const DEFAULT_TOP_K_MENTOR_SEARCH = 10; // How many potential mentors to fetch per mentee
+export const DEFAULT_MENTOR_CAPACITY = 1;
+
+export interface MatchingMentee {
+  id: string;
+  name: string;
+  searchText: string; // Text embedded to search for mentors, e.g. goals and interests
+  profile?: UserOnboardingDetails; // Enables hybrid scoring when both sides have one
+}
+
+export interface MatchingMentor {
+  id: string; // Supabase user id, or the vector record ID for records without one
+  name: string;
+  capacity?: number; // How many mentees this mentor can take; defaults to options.defaultCapacity
+  profile?: UserOnboardingDetails;
+}
+
+export interface MentorCandidate {
+  mentorId: string;
+  mentorName: string;
+  score: number; // Hybrid score when a breakdown is present, otherwise the vector similarity
+  vectorScore: number;
+  breakdown?: MatchScoreBreakdown;
+  metadata?: StorableMetadata;
+}
+
+export interface MenteeCandidates {
+  mentee: MatchingMentee;
+  candidates: MentorCandidate[]; // Sorted by score, best first
+}
+
+export interface MatchAssignment {
+  menteeId: string;
+  menteeName: string;
+  mentorId: string | null;
+  mentorName: string | null;
+  score: number | null;
+  breakdown: MatchScoreBreakdown | null; // Per-component scores when hybrid scoring was used
+  assignmentType: AssignmentType;
+}
+
+export interface MatchingOptions {
+  strategy?: AssignmentStrategy; // Defaults to greedy
+  compare?: boolean; // Also run the other strategy on the same candidates and report the difference
+  topK?: number; // Defaults to every mentor for the optimal strategy, so the similarity matrix is complete
+  defaultCapacity?: number;
+  // Extra server-side filter merged into the mentor search, e.g. to restrict it to a cohort.
+  candidateFilter?: PineconeQueryFilter;
+  // Combine vector similarity with structured profile fields; pairs failing a hard constraint are dropped.
+  scoring?: MatchScoringConfig;
+}
+
+export interface MatchingRoundResult {
+  strategy: AssignmentStrategy;
+  candidates: MenteeCandidates[];
+  assignments: MatchAssignment[];
+  mentorLoad: Record<string, number>; // Mentees assigned per mentor id
+  comparison?: StrategyComparison;
+}
+
+type AssignmentOutcome = Pick<MatchingRoundResult, "assignments" | "mentorLoad">;
+
+export interface AssignmentSummary {
+  strategy: AssignmentStrategy;
+  matchedCount: number;
+  uniqueCount: number;
+  sharedFallbackCount: number;
+  unmatchedCount: number;
+  totalScore: number;
+  minScore: number | null;
+  averageScore: number | null;
+}
+
+export interface StrategyComparison {
+  greedy: AssignmentSummary;
+  optimal: AssignmentSummary;
+  totalScoreGain: number; // optimal − greedy
+  minScoreGain: number | null;
+}
+
+// Vector records written for user profiles carry the user's id; seed records only have their record ID.
+function mentorIdForMatch(match: PineconeMatch<StorableMetadata>): string {
+  const userId = match.metadata?.user_id;
+  return typeof userId === "string" && userId !== "" ? userId : match.id;
+}
+
+export function mentorCapacity(mentor: MatchingMentor | undefined, options: MatchingOptions = {}): number {
+  return mentor?.capacity ?? options.defaultCapacity ?? DEFAULT_MENTOR_CAPACITY;
+}
+
+function toCandidate(
+  mentee: MatchingMentee,
+  mentor: MatchingMentor,
+  match: PineconeMatch<StorableMetadata>,
+  options: MatchingOptions
+): MentorCandidate | null {
+  const vectorScore = match.score!;
+  const base = { mentorId: mentor.id, mentorName: mentor.name, vectorScore, metadata: match.metadata };
+  if (!options.scoring || !mentee.profile || !mentor.profile) {
+    return { ...base, score: vectorScore };
+  }
+  const breakdown = scoreMatch(mentee.profile, mentor.profile, vectorScore, options.scoring);
+  return breakdown.eligible ? { ...base, score: breakdown.total, breakdown } : null;
+}
+
+/**
+ * Phase 1: fetch and rank candidate mentors for each mentee.
+ * Only records belonging to one of the given mentors are kept. With
+ * options.scoring, candidates are re-ranked by their hybrid score.
+ */
+export async function fetchMentorCandidates(
+  mentees: MatchingMentee[],
+  mentors: MatchingMentor[],
+  options: MatchingOptions = {}
+): Promise<MenteeCandidates[]> {
+  ensureServer("fetchMentorCandidates");
+  const topK = options.topK ?? DEFAULT_TOP_K_MENTOR_SEARCH;
+  const mentorsById = new Map(mentors.map((mentor) => [mentor.id, mentor]));
+  const filter: PineconeQueryFilter = { ...options.candidateFilter, type: { $eq: METADATA_TYPE_BIG } };
+
+  const results: MenteeCandidates[] = [];
+  for (const mentee of mentees) {
+    const matches = await findSimilarResponses<StorableMetadata>(mentee.searchText, topK, filter);
+    const candidates = matches
+      .filter((match) => typeof match.score === "number" && mentorsById.has(mentorIdForMatch(match)))
+      .map((match) => toCandidate(mentee, mentorsById.get(mentorIdForMatch(match))!, match, options))
+      .filter((candidate): candidate is MentorCandidate => candidate !== null)
+      .sort((a, b) => b.score - a.score);
+    console.log(`[fetchMentorCandidates] ${candidates.length} candidate mentor(s) for "${mentee.name}".`);
+    results.push({ mentee, candidates });
+  }
+  return results;
+}
+
+/**
+ * Phase 2 (greedy): mentees with the fewest candidates pick first and take
+ * their best candidate that still has capacity. If every candidate is full,
+ * the best one is assigned anyway as a shared fallback.
+ */
+export function assignMentorsGreedy(
+  menteeCandidates: MenteeCandidates[],
+  mentors: MatchingMentor[],
+  options: MatchingOptions = {}
+): AssignmentOutcome {
+  const mentorsById = new Map(mentors.map((mentor) => [mentor.id, mentor]));
+  const mentorLoad: Record<string, number> = {};
+  const hasCapacity = (mentorId: string) =>
+    (mentorLoad[mentorId] ?? 0) < mentorCapacity(mentorsById.get(mentorId), options);
+
+  const ordered = [...menteeCandidates].sort((a, b) => a.candidates.length - b.candidates.length);
+  const assignments: MatchAssignment[] = ordered.map(({ mentee, candidates }) => {
+    const withinCapacity = candidates.find((candidate) => hasCapacity(candidate.mentorId));
+    const chosen = withinCapacity ?? candidates[0];
+    if (!chosen) {
+      return {
+        menteeId: mentee.id,
+        menteeName: mentee.name,
+        mentorId: null,
+        mentorName: null,
+        score: null,
+        breakdown: null,
+        assignmentType: AssignmentType.NoMatchFound,
+      };
+    }
+    mentorLoad[chosen.mentorId] = (mentorLoad[chosen.mentorId] ?? 0) + 1;
+    return {
+      menteeId: mentee.id,
+      menteeName: mentee.name,
+      mentorId: chosen.mentorId,
+      mentorName: chosen.mentorName,
+      score: chosen.score,
+      breakdown: chosen.breakdown ?? null,
+      assignmentType: withinCapacity ? AssignmentType.Unique : AssignmentType.SharedFallback,
+    };
+  });
+
+  return { assignments, mentorLoad };
+}
+
+// Costs for the optimal strategy. A candidate pair costs 1 − score (vector
+// similarities lie in [-1, 1], hybrid scores in [0, 1]). Leaving a mentee unassigned costs more than any pair,
+// so the solver first places as many mentees as capacity allows and only then
+// maximises total similarity; pairs outside a mentee's candidates are never used.
+const UNASSIGNED_COST = 1_000;
+const FORBIDDEN_COST = 1_000_000;
+
+/**
+ * Phase 2 (optimal): solve a global assignment over mentees × mentor capacity
+ * slots with the Hungarian algorithm. Mentees left without a slot fall back to
+ * their best candidate as a shared assignment, as in the greedy strategy.
+ */
+export function assignMentorsOptimal(
+  menteeCandidates: MenteeCandidates[],
+  mentors: MatchingMentor[],
+  options: MatchingOptions = {}
+): AssignmentOutcome {
+  const slots: MatchingMentor[] = mentors.flatMap((mentor) =>
+    Array.from({ length: mentorCapacity(mentor, options) }, () => mentor)
+  );
+  const cost = menteeCandidates.map(({ candidates }) => {
+    const byMentor = new Map(candidates.map((candidate) => [candidate.mentorId, candidate]));
+    const slotCosts = slots.map((slot) => {
+      const candidate = byMentor.get(slot.id);
+      return candidate ? 1 - candidate.score : FORBIDDEN_COST;
+    });
+    // One "unassigned" column per mentee keeps the problem feasible when capacity runs out.
+    return [...slotCosts, ...menteeCandidates.map(() => UNASSIGNED_COST)];
+  });
+  const solution = solveMinCostAssignment(cost);
+
+  const mentorLoad: Record<string, number> = {};
+  const assignments: MatchAssignment[] = menteeCandidates.map(({ mentee, candidates }, row) => {
+    const column = solution[row];
+    const slot = column < slots.length && cost[row][column] < FORBIDDEN_COST ? slots[column] : undefined;
+    const chosen = slot
+      ? candidates.find((candidate) => candidate.mentorId === slot.id)
+      : candidates[0];
+    if (!chosen) {
+      return {
+        menteeId: mentee.id,
+        menteeName: mentee.name,
+        mentorId: null,
+        mentorName: null,
+        score: null,
+        breakdown: null,
+        assignmentType: AssignmentType.NoMatchFound,
+      };
+    }
+    mentorLoad[chosen.mentorId] = (mentorLoad[chosen.mentorId] ?? 0) + 1;
+    return {
+      menteeId: mentee.id,
+      menteeName: mentee.name,
+      mentorId: chosen.mentorId,
+      mentorName: chosen.mentorName,
+      score: chosen.score,
+      breakdown: chosen.breakdown ?? null,
+      assignmentType: slot ? AssignmentType.Unique : AssignmentType.SharedFallback,
+    };
+  });
+
+  return { assignments, mentorLoad };
+}
+
+export function assignMentors(
+  strategy: AssignmentStrategy,
+  menteeCandidates: MenteeCandidates[],
+  mentors: MatchingMentor[],
+  options: MatchingOptions = {}
+): AssignmentOutcome {
+  return strategy === AssignmentStrategy.Optimal
+    ? assignMentorsOptimal(menteeCandidates, mentors, options)
+    : assignMentorsGreedy(menteeCandidates, mentors, options);
+}
+
+// --- Strategy Comparison ---
+
+export function summarizeAssignments(strategy: AssignmentStrategy, assignments: MatchAssignment[]): AssignmentSummary {
+  const scores = assignments
+    .map((assignment) => assignment.score)
+    .filter((score): score is number => typeof score === "number");
+  const totalScore = scores.reduce((sum, score) => sum + score, 0);
+  return {
+    strategy,
+    matchedCount: scores.length,
+    uniqueCount: assignments.filter((a) => a.assignmentType === AssignmentType.Unique).length,
+    sharedFallbackCount: assignments.filter((a) => a.assignmentType === AssignmentType.SharedFallback).length,
+    unmatchedCount: assignments.filter((a) => a.assignmentType === AssignmentType.NoMatchFound).length,
+    totalScore,
+    minScore: scores.length > 0 ? Math.min(...scores) : null,
+    averageScore: scores.length > 0 ? totalScore / scores.length : null,
+  };
+}
+
+/**
+ * Run both strategies on the same candidates and report total and minimum
+ * match score for each, so coordinators can see what the optimal mode gains.
+ */
+export function compareAssignmentStrategies(
+  menteeCandidates: MenteeCandidates[],
+  mentors: MatchingMentor[],
+  options: MatchingOptions = {}
+): StrategyComparison {
+  const greedy = summarizeAssignments(
+    AssignmentStrategy.Greedy,
+    assignMentorsGreedy(menteeCandidates, mentors, options).assignments
+  );
+  const optimal = summarizeAssignments(
+    AssignmentStrategy.Optimal,
+    assignMentorsOptimal(menteeCandidates, mentors, options).assignments
+  );
+  return {
+    greedy,
+    optimal,
+    totalScoreGain: optimal.totalScore - greedy.totalScore,
+    minScoreGain: optimal.minScore !== null && greedy.minScore !== null ? optimal.minScore - greedy.minScore : null,
+  };
+}
+
+/**
+ * Run a full matching round for a set of mentees and mentors.
+ * This function must only be called from server-side code.
+ */
+export async function runMatchingRound(
+  mentees: MatchingMentee[],
+  mentors: MatchingMentor[],
+  options: MatchingOptions = {}
+): Promise<MatchingRoundResult> {
+  ensureServer("runMatchingRound");
+  const strategy = options.strategy ?? AssignmentStrategy.Greedy;
+  const topK = options.topK ?? (strategy === AssignmentStrategy.Optimal
+    ? Math.max(mentors.length, DEFAULT_TOP_K_MENTOR_SEARCH)
+    : DEFAULT_TOP_K_MENTOR_SEARCH);
+  console.log(`[runMatchingRound] Matching ${mentees.length} mentee(s) with ${mentors.length} mentor(s) using the ${strategy} strategy.`);
+
+  const candidates = await fetchMentorCandidates(mentees, mentors, { ...options, topK });
+  const { assignments, mentorLoad } = assignMentors(strategy, candidates, mentors, options);
+  const unmatched = assignments.filter((a) => a.assignmentType === AssignmentType.NoMatchFound).length;
+  console.log(`[runMatchingRound] ${assignments.length - unmatched} mentee(s) matched, ${unmatched} without a match.`);
+
+  const comparison = options.compare ? compareAssignmentStrategies(candidates, mentors, options) : undefined;
+  if (comparison) {
+    console.log(`[runMatchingRound] Optimal vs greedy: total score ${comparison.totalScoreGain >= 0 ? "+" : ""}${comparison.totalScoreGain.toFixed(3)}, minimum score ${comparison.minScoreGain?.toFixed(3) ?? "n/a"}.`);
+  }
+  return { strategy, candidates, assignments, mentorLoad, comparison };
+}
@@ -0,0 +1,167 @@
+// src/lib/meetingSeries.ts
+// Recurring meetings: a 'meeting_series' row records the cadence, and each
+// occurrence is an ordinary 'meetings' row pointing at it, so single
+// occurrences can be moved, skipped or cancelled on their own.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+import type { TimeInterval } from './availability.ts';
+import { createMeetings, MeetingRowWithCalendarEvent, NewMeeting } from './meetings.ts';
+import {
+  addDaysToDateString,
+  addMonthsToDateString,
+  daysBetweenDateStrings,
+  zonedDateString,
+  zonedMinutesOfDay,
+  zonedTimeToInstant,
+} from './timeZones.ts';
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'biweekly', 'monthly'] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+export const MAX_SERIES_OCCURRENCES = 52; // A year of weekly meetings
+
+export const recurrenceLabels: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+};
+
+// Row in the 'meeting_series' table. Readable and writable by both participants under RLS.
+export interface MeetingSeriesRow {
+  id: string; // uuid, generated by the database
+  mentee_id: string;
+  mentor_id: string;
+  created_by: string;
+  frequency: RecurrenceFrequency;
+  time_zone: string; // IANA zone whose wall clock the occurrences follow
+  until_date: string | null; // 'yyyy-MM-dd' in time_zone, inclusive; null when ending after a count
+  occurrence_count: number | null;
+  created_at: string; // timestamptz
+}
+
+export type NewMeetingSeries = Pick<
+  MeetingSeriesRow,
+  'mentee_id' | 'mentor_id' | 'created_by' | 'frequency' | 'time_zone' | 'until_date' | 'occurrence_count'
+>;
+
+// How a new meeting repeats, as sent by the browser. Series end on a date or after a number of meetings.
+export const recurrenceSchema = z
+  .object({
+    frequency: z.enum(RECURRENCE_FREQUENCIES, { message: 'frequency must be "weekly", "biweekly" or "monthly".' }),
+    until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'until must be in yyyy-MM-dd format.' }).optional(),
+    count: z
+      .number()
+      .int()
+      .min(2, { message: 'A series needs at least 2 meetings.' })
+      .max(MAX_SERIES_OCCURRENCES, { message: `A series can have at most ${MAX_SERIES_OCCURRENCES} meetings.` })
+      .optional(),
+  })
+  .refine((recurrence) => !recurrence.until !== !recurrence.count, {
+    message: 'Choose either an end date or a number of meetings.',
+    path: ['until'],
+  });
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
+function occurrenceDate(firstDate: string, frequency: RecurrenceFrequency, index: number): string {
+  switch (frequency) {
+    case 'weekly':
+      return addDaysToDateString(firstDate, 7 * index);
+    case 'biweekly':
+      return addDaysToDateString(firstDate, 14 * index);
+    case 'monthly':
+      return addMonthsToDateString(firstDate, index);
+  }
+}
+
+/**
+ * Start and end of every meeting in a series beginning with `first`. Each
+ * occurrence starts at the same time on the wall clock in `timeZone`, so a
+ * 9:00 meeting stays at 9:00 across DST changes. Monthly meetings on the 29th
+ * to 31st fall on the last day of shorter months. At most
+ * MAX_SERIES_OCCURRENCES are returned.
+ */
+export function generateOccurrences(first: TimeInterval, recurrence: Recurrence, timeZone: string): TimeInterval[] {
+  const firstStart = new Date(first.start);
+  const firstDate = zonedDateString(firstStart, timeZone);
+  const startMinutes = zonedMinutesOfDay(firstStart, timeZone);
+  const durationMs = Date.parse(first.end) - firstStart.getTime();
+  const count = Math.min(recurrence.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const occurrences: TimeInterval[] = [];
+  for (let index = 0; index < count; index++) {
+    const date = occurrenceDate(firstDate, recurrence.frequency, index);
+    if (recurrence.until && date > recurrence.until) break;
+    const start = zonedTimeToInstant(date, startMinutes, timeZone);
+    occurrences.push({ start: start.toISOString(), end: new Date(start.getTime() + durationMs).toISOString() });
+  }
+  return occurrences;
+}
+
+/**
+ * RRULE line for Google Calendar placing `count` meetings from `firstStart` as
+ * generateOccurrences does. Monthly meetings on the 29th to 31st take the last
+ * of the days from the 28th up to theirs, so shorter months are not skipped.
+ */
+export function recurrenceRule(frequency: RecurrenceFrequency, firstStart: string, timeZone: string, count: number): string {
+  const parts = frequency === 'monthly' ? ['FREQ=MONTHLY'] : ['FREQ=WEEKLY'];
+  if (frequency === 'biweekly') parts.push('INTERVAL=2');
+  const dayOfMonth = Number(zonedDateString(new Date(firstStart), timeZone).slice(8));
+  if (frequency === 'monthly' && dayOfMonth > 28) {
+    const days = Array.from({ length: dayOfMonth - 27 }, (_, index) => 28 + index);
+    parts.push(`BYMONTHDAY=${days.join(',')}`, 'BYSETPOS=-1');
+  }
+  parts.push(`COUNT=${count}`);
+  return `RRULE:${parts.join(';')}`;
+}
+
+/**
+ * Move a later occurrence the way one occurrence was moved from `editedFrom`
+ * to `editedTo`: by the same number of days, to the new time of day in
+ * `timeZone`, with the new duration. Used to edit "this and following".
+ */
+export function shiftOccurrence(
+  occurrenceStart: string,
+  editedFrom: string,
+  editedTo: TimeInterval,
+  timeZone: string
+): TimeInterval {
+  const newStart = new Date(editedTo.start);
+  const dayShift = daysBetweenDateStrings(
+    zonedDateString(new Date(editedFrom), timeZone),
+    zonedDateString(newStart, timeZone)
+  );
+  const date = addDaysToDateString(zonedDateString(new Date(occurrenceStart), timeZone), dayShift);
+  const start = zonedTimeToInstant(date, zonedMinutesOfDay(newStart, timeZone), timeZone);
+  const durationMs = Date.parse(editedTo.end) - newStart.getTime();
+  return { start: start.toISOString(), end: new Date(start.getTime() + durationMs).toISOString() };
+}
+
+/**
+ * Create a series and its meetings, returned in start order. The series is
+ * removed again if its meetings cannot be saved.
+ */
+export async function createMeetingSeries(
+  supabase: SupabaseClient,
+  series: NewMeetingSeries,
+  meetings: Omit<NewMeeting, 'series_id'>[]
+): Promise<MeetingRowWithCalendarEvent[]> {
+  const { data, error } = await supabase
+    .from('meeting_series')
+    .insert(series)
+    .select('id')
+    .single<Pick<MeetingSeriesRow, 'id'>>();
+  if (error) {
+    console.error('[createMeetingSeries] Error creating meeting series:', error);
+    throw new Error('Failed to create the meeting series.');
+  }
+
+  try {
+    return await createMeetings(supabase, meetings.map((meeting) => ({ ...meeting, series_id: data.id })));
+  } catch (error) {
+    const { error: cleanupError } = await supabase.from('meeting_series').delete().eq('id', data.id);
+    if (cleanupError) console.error(`[createMeetingSeries] Error removing series "${data.id}":`, cleanupError);
+    throw error;
+  }
+}
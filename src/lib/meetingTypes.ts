@@ -0,0 +1,192 @@
+// src/lib/meetingTypes.ts
+// Meeting types offered when scheduling: each program (cohort) can have its
+// own catalog, edited by coordinators, and falls back to DEFAULT_MEETING_TYPES.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+import { findUserAssignment } from './cohorts.ts';
+import { UserRole } from './profiles.ts';
+
+export const MEETING_DURATION_OPTIONS = [15, 30, 45, 60, 90, 120] as const; // Minutes
+export const MAX_MEETING_TYPES = 30;
+
+// Row in the 'meeting_types' table. Readable by signed-in users under RLS;
+// written by coordinators through /api/meeting-types with the service role.
+export interface MeetingTypeRow {
+  id: string; // uuid, generated by the database
+  cohort_id: string;
+  name: string; // Stored on meetings.meeting_type when booked
+  duration_minutes: number;
+  agenda_template: string | null; // Prefills the meeting description
+  allowed_roles: UserRole[]; // Roles that may request this type
+  sort_order: number;
+  created_at: string; // timestamptz
+  updated_at: string; // timestamptz
+}
+
+// Meeting type as sent to and from the browser.
+export interface MeetingType {
+  id: string;
+  name: string;
+  durationMinutes: number;
+  agendaTemplate: string | null;
+  allowedRoles: UserRole[];
+}
+
+// Offered in programs that have not set up their own catalog.
+export const DEFAULT_MEETING_TYPES: MeetingType[] = [
+  {
+    id: 'career-planning',
+    name: 'Career Planning',
+    durationMinutes: 60,
+    agendaTemplate: 'Where I am now:\nWhere I want to be in 1-2 years:\nQuestions:',
+    allowedRoles: ['mentee', 'mentor'],
+  },
+  {
+    id: 'resume-review',
+    name: 'Resume Review',
+    durationMinutes: 45,
+    agendaTemplate: 'Role I am applying for:\nSections I would like feedback on:',
+    allowedRoles: ['mentee', 'mentor'],
+  },
+  {
+    id: 'interview-prep',
+    name: 'Interview Preparation',
+    durationMinutes: 60,
+    agendaTemplate: 'Company and role:\nInterview format:\nQuestions to practise:',
+    allowedRoles: ['mentee', 'mentor'],
+  },
+  { id: 'skill-development', name: 'Skill Development', durationMinutes: 60, agendaTemplate: null, allowedRoles: ['mentee', 'mentor'] },
+  { id: 'general-advice', name: 'General Advice', durationMinutes: 30, agendaTemplate: null, allowedRoles: ['mentee', 'mentor'] },
+  { id: 'other', name: 'Other', durationMinutes: 60, agendaTemplate: null, allowedRoles: ['mentee', 'mentor'] },
+];
+
+export const meetingTypeSchema = z.object({
+  id: z.string().max(100).optional(), // Leave out for new types
+  name: z.string().trim().min(1, { message: 'Please name every meeting type.' }).max(100),
+  durationMinutes: z
+    .number()
+    .int()
+    .refine((minutes) => (MEETING_DURATION_OPTIONS as readonly number[]).includes(minutes), {
+      message: `Durations must be one of ${MEETING_DURATION_OPTIONS.join(', ')} minutes.`,
+    }),
+  agendaTemplate: z.string().trim().max(2000).nullish(),
+  allowedRoles: z
+    .array(z.enum(['mentee', 'mentor']))
+    .min(1, { message: 'At least one role must be able to request each meeting type.' }),
+});
+
+export const meetingTypeCatalogSchema = z
+  .array(meetingTypeSchema)
+  .max(MAX_MEETING_TYPES, { message: `A program can have at most ${MAX_MEETING_TYPES} meeting types.` })
+  .refine((types) => new Set(types.map((type) => type.name.toLowerCase())).size === types.length, {
+    message: 'Meeting type names must be unique.',
+  });
+
+export type MeetingTypeInput = z.infer<typeof meetingTypeSchema>;
+
+function rowToMeetingType(row: MeetingTypeRow): MeetingType {
+  return {
+    id: row.id,
+    name: row.name,
+    durationMinutes: row.duration_minutes,
+    agendaTemplate: row.agenda_template,
+    allowedRoles: row.allowed_roles,
+  };
+}
+
+export function meetingTypesForRole(types: MeetingType[], role: UserRole): MeetingType[] {
+  return types.filter((type) => type.allowedRoles.includes(role));
+}
+
+async function listCohortMeetingTypeRows(supabase: SupabaseClient, cohortId: string): Promise<MeetingTypeRow[]> {
+  const { data, error } = await supabase
+    .from('meeting_types')
+    .select('*')
+    .eq('cohort_id', cohortId)
+    .order('sort_order', { ascending: true })
+    .returns<MeetingTypeRow[]>();
+  if (error) {
+    console.error(`[listCohortMeetingTypeRows] Error loading meeting types for cohort "${cohortId}":`, error);
+    throw new Error('Failed to load meeting types.');
+  }
+  return data ?? [];
+}
+
+/**
+ * The program's meeting types in display order, or DEFAULT_MEETING_TYPES for
+ * users outside a cohort and cohorts without a catalog of their own.
+ */
+export async function listMeetingTypes(supabase: SupabaseClient, cohortId: string | null | undefined): Promise<MeetingType[]> {
+  if (!cohortId) return DEFAULT_MEETING_TYPES;
+  const rows = await listCohortMeetingTypeRows(supabase, cohortId);
+  return rows.length > 0 ? rows.map(rowToMeetingType) : DEFAULT_MEETING_TYPES;
+}
+
+/**
+ * Meeting types a pair can book: the catalog of the cohort they were matched
+ * in, which may differ from the cohort on either profile. The scheduling page
+ * and /api/meetings both use this so they always agree. Without `partnerId`
+ * the user's latest match is used. `supabaseAdmin` must use the service role.
+ */
+export async function listPairMeetingTypes(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  partnerId?: string
+): Promise<MeetingType[]> {
+  const assignment = await findUserAssignment(supabaseAdmin, userId, partnerId);
+  return listMeetingTypes(supabaseAdmin, assignment?.cohort_id);
+}
+
+/**
+ * Replace the cohort's catalog with `types`, in order. Types keep their id when
+ * it belongs to the cohort; others are created. Types left out are deleted,
+ * and an empty list returns the cohort to the defaults. Meetings keep the type
+ * name they were booked with. `supabaseAdmin` must use the service role.
+ */
+export async function saveCohortMeetingTypes(
+  supabaseAdmin: SupabaseClient,
+  cohortId: string,
+  types: MeetingTypeInput[]
+): Promise<MeetingType[]> {
+  const existingIds = new Set((await listCohortMeetingTypeRows(supabaseAdmin, cohortId)).map((row) => row.id));
+  const updatedAt = new Date().toISOString();
+  const rows = types.map((type, index) => ({
+    ...(type.id && existingIds.has(type.id) ? { id: type.id } : {}),
+    cohort_id: cohortId,
+    name: type.name,
+    duration_minutes: type.durationMinutes,
+    agenda_template: type.agendaTemplate || null,
+    allowed_roles: type.allowedRoles,
+    sort_order: index,
+    updated_at: updatedAt,
+  }));
+
+  let saved: MeetingTypeRow[] = [];
+  if (rows.length > 0) {
+    // New rows leave out the id, so let the database generate it
+    const { data, error } = await supabaseAdmin
+      .from('meeting_types')
+      .upsert(rows, { onConflict: 'id', defaultToNull: false })
+      .select()
+      .returns<MeetingTypeRow[]>();
+    if (error) {
+      console.error(`[saveCohortMeetingTypes] Error saving meeting types for cohort "${cohortId}":`, error);
+      throw new Error('Failed to save meeting types.');
+    }
+    saved = data ?? [];
+  }
+
+  let removal = supabaseAdmin.from('meeting_types').delete().eq('cohort_id', cohortId);
+  if (saved.length > 0) removal = removal.not('id', 'in', `(${saved.map((row) => row.id).join(',')})`);
+  const { error: deleteError } = await removal;
+  if (deleteError) {
+    console.error(`[saveCohortMeetingTypes] Error removing meeting types for cohort "${cohortId}":`, deleteError);
+    throw new Error('Failed to save meeting types.');
+  }
+
+  console.log(`[saveCohortMeetingTypes] Saved ${saved.length} meeting type(s) for cohort ${cohortId}`);
+  return saved.length > 0
+    ? saved.sort((a, b) => a.sort_order - b.sort_order).map(rowToMeetingType)
+    : DEFAULT_MEETING_TYPES;
+}
@@ -0,0 +1,262 @@
+// src/lib/meetings.ts
+// Mentorship meetings: the 'meetings' table, queries used by /api/meetings and
+// the shape the dashboard and meetings pages render.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+import type { TimeInterval } from './availability.ts';
+import type { MeetingSeriesRow } from './meetingSeries.ts';
+import { UserOnboardingDetails } from './profiles.ts';
+import { isValidTimeZone } from './timeZones.ts';
+
+// 'skipped' is used for a single occurrence of a series that will not take place.
+export type MeetingStatus = 'scheduled' | 'completed' | 'cancelled' | 'skipped';
+
+// Row in the 'meetings' table. Readable and writable by both participants under RLS.
+export interface MeetingRow {
+  id: string; // uuid, generated by the database
+  mentee_id: string;
+  mentor_id: string;
+  created_by: string;
+  title: string;
+  description: string | null;
+  meeting_type: string | null;
+  start_at: string; // timestamptz
+  end_at: string; // timestamptz
+  status: MeetingStatus;
+  calendar_event_id: string | null; // 'calendar_events' row when synced to Google Calendar
+  series_id: string | null; // 'meeting_series' row when the meeting is one occurrence of a series
+  created_at: string; // timestamptz
+  updated_at: string; // timestamptz
+}
+
+export type MeetingRowWithCalendarEvent = MeetingRow & {
+  calendar_event: { conference_link: string | null } | null;
+  series: Pick<MeetingSeriesRow, 'frequency' | 'time_zone'> | null;
+};
+
+// Meeting as returned by the API, from the viewing user's point of view.
+export interface MeetingSummary {
+  id: string;
+  title: string;
+  description: string | null;
+  meetingType: string | null;
+  start: string; // ISO 8601 instant
+  end: string; // ISO 8601 instant
+  status: MeetingStatus;
+  menteeId: string;
+  mentorId: string;
+  partner: { id: string; name: string; timeZone: string | null };
+  conferenceLink: string | null;
+  calendarSynced: boolean;
+  series: { id: string; frequency: MeetingSeriesRow['frequency'] } | null;
+}
+
+export interface MeetingListFilter {
+  partnerId?: string;
+  seriesId?: string;
+  from?: string; // Meetings ending after this instant
+  to?: string; // Meetings starting before this instant
+  statuses?: MeetingStatus[];
+  limit?: number;
+}
+
+export type NewMeeting = Pick<MeetingRow, 'mentee_id' | 'mentor_id' | 'created_by' | 'title' | 'start_at' | 'end_at'>
+  & Partial<Pick<MeetingRow, 'description' | 'meeting_type' | 'series_id'>>;
+
+const isoDateTime = (field: string) =>
+  z.string().datetime({ offset: true, message: `${field} must be an ISO 8601 date-time.` });
+
+// Start and end of a meeting as sent by the browser; check with `hasValidDuration`.
+export const meetingTimesSchema = z.object({
+  start: isoDateTime('start'),
+  end: isoDateTime('end'),
+  // IANA zone the meeting was scheduled in; Google Calendar shows the event in it
+  timeZone: z.string().refine(isValidTimeZone, { message: 'timeZone must be an IANA time zone.' }).optional(),
+});
+
+export function hasValidDuration(times: { start: string; end: string }): boolean {
+  return Date.parse(times.end) > Date.parse(times.start);
+}
+
+const MEETING_SELECT = '*, calendar_event:calendar_events(conference_link), series:meeting_series(frequency, time_zone)';
+
+export function partnerIdFor(meeting: Pick<MeetingRow, 'mentee_id' | 'mentor_id'>, userId: string): string {
+  return meeting.mentee_id === userId ? meeting.mentor_id : meeting.mentee_id;
+}
+
+/**
+ * Meetings the user takes part in, in start order. Date bounds select meetings
+ * overlapping [from, to).
+ */
+export async function listMeetings(
+  supabase: SupabaseClient,
+  userId: string,
+  filter: MeetingListFilter = {}
+): Promise<MeetingRowWithCalendarEvent[]> {
+  let query = supabase.from('meetings').select(MEETING_SELECT);
+  query = filter.partnerId
+    ? query.or(`and(mentee_id.eq.${userId},mentor_id.eq.${filter.partnerId}),and(mentor_id.eq.${userId},mentee_id.eq.${filter.partnerId})`)
+    : query.or(`mentee_id.eq.${userId},mentor_id.eq.${userId}`);
+  if (filter.seriesId) query = query.eq('series_id', filter.seriesId);
+  if (filter.from) query = query.gt('end_at', filter.from);
+  if (filter.to) query = query.lt('start_at', filter.to);
+  if (filter.statuses?.length) query = query.in('status', filter.statuses);
+  query = query.order('start_at', { ascending: true });
+  if (filter.limit) query = query.limit(filter.limit);
+
+  const { data, error } = await query.returns<MeetingRowWithCalendarEvent[]>();
+  if (error) {
+    console.error(`[listMeetings] Error loading meetings for user "${userId}":`, error);
+    throw new Error('Failed to load meetings.');
+  }
+  return data ?? [];
+}
+
+/**
+ * Start and end of scheduled meetings any of the users take part in that
+ * overlap [from, to), e.g. to subtract from bookable slots. Meetings with other
+ * partners are hidden by RLS, so `supabaseAdmin` must use the service role.
+ */
+export async function listBusyIntervals(
+  supabaseAdmin: SupabaseClient,
+  userIds: string[],
+  from: string,
+  to: string,
+  excludeMeetingIds: string[] = []
+): Promise<TimeInterval[]> {
+  const ids = userIds.join(',');
+  let query = supabaseAdmin
+    .from('meetings')
+    .select('start_at, end_at')
+    .or(`mentee_id.in.(${ids}),mentor_id.in.(${ids})`)
+    .eq('status', 'scheduled')
+    .gt('end_at', from)
+    .lt('start_at', to);
+  if (excludeMeetingIds.length > 0) query = query.not('id', 'in', `(${excludeMeetingIds.join(',')})`);
+
+  const { data, error } = await query.returns<Pick<MeetingRow, 'start_at' | 'end_at'>[]>();
+  if (error) {
+    console.error('[listBusyIntervals] Error loading meetings:', error);
+    throw new Error('Failed to load existing meetings.');
+  }
+  return (data ?? []).map((meeting) => ({ start: meeting.start_at, end: meeting.end_at }));
+}
+
+export async function getMeeting(supabase: SupabaseClient, meetingId: string): Promise<MeetingRowWithCalendarEvent | null> {
+  const { data, error } = await supabase
+    .from('meetings')
+    .select(MEETING_SELECT)
+    .eq('id', meetingId)
+    .maybeSingle<MeetingRowWithCalendarEvent>();
+  if (error) {
+    console.error(`[getMeeting] Error loading meeting "${meetingId}":`, error);
+    throw new Error('Failed to load the meeting.');
+  }
+  return data;
+}
+
+export async function createMeeting(supabase: SupabaseClient, meeting: NewMeeting): Promise<MeetingRowWithCalendarEvent> {
+  const { data, error } = await supabase
+    .from('meetings')
+    .insert({ ...meeting, status: 'scheduled' })
+    .select(MEETING_SELECT)
+    .single<MeetingRowWithCalendarEvent>();
+  if (error) {
+    console.error('[createMeeting] Error creating meeting:', error);
+    throw new Error('Failed to create the meeting.');
+  }
+  return data;
+}
+
+// Insert several meetings at once, e.g. the occurrences of a new series.
+export async function createMeetings(supabase: SupabaseClient, meetings: NewMeeting[]): Promise<MeetingRowWithCalendarEvent[]> {
+  const { data, error } = await supabase
+    .from('meetings')
+    .insert(meetings.map((meeting) => ({ ...meeting, status: 'scheduled' })))
+    .select(MEETING_SELECT)
+    .order('start_at', { ascending: true })
+    .returns<MeetingRowWithCalendarEvent[]>();
+  if (error) {
+    console.error(`[createMeetings] Error creating ${meetings.length} meetings:`, error);
+    throw new Error('Failed to create the meetings.');
+  }
+  return data ?? [];
+}
+
+export async function updateMeeting(
+  supabase: SupabaseClient,
+  meetingId: string,
+  changes: Partial<Pick<MeetingRow, 'start_at' | 'end_at' | 'status' | 'calendar_event_id'>>
+): Promise<MeetingRowWithCalendarEvent> {
+  const { data, error } = await supabase
+    .from('meetings')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', meetingId)
+    .select(MEETING_SELECT)
+    .single<MeetingRowWithCalendarEvent>();
+  if (error) {
+    console.error(`[updateMeeting] Error updating meeting "${meetingId}":`, error);
+    throw new Error('Failed to update the meeting.');
+  }
+  return data;
+}
+
+/**
+ * Convert rows to summaries for `userId`. Partner names come from profiles the
+ * user cannot read under RLS, so `supabaseAdmin` must use the service role.
+ */
+export async function toMeetingSummaries(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  meetings: MeetingRowWithCalendarEvent[]
+): Promise<MeetingSummary[]> {
+  const partnerIds = [...new Set(meetings.map((meeting) => partnerIdFor(meeting, userId)))];
+  const partners = new Map<string, Pick<UserOnboardingDetails, 'full_name' | 'time_zone'>>();
+  if (partnerIds.length > 0) {
+    const { data, error } = await supabaseAdmin
+      .from('user_onboarding_details')
+      .select('user_id, full_name, time_zone')
+      .in('user_id', partnerIds)
+      .returns<Pick<UserOnboardingDetails, 'user_id' | 'full_name' | 'time_zone'>[]>();
+    if (error) {
+      console.error('[toMeetingSummaries] Error loading partner names:', error);
+      throw new Error('Failed to load meeting participants.');
+    }
+    data?.forEach((profile) => partners.set(profile.user_id, profile));
+  }
+
+  return meetings.map((meeting) => {
+    const partnerId = partnerIdFor(meeting, userId);
+    const partner = partners.get(partnerId);
+    return {
+      id: meeting.id,
+      title: meeting.title,
+      description: meeting.description,
+      meetingType: meeting.meeting_type,
+      start: meeting.start_at,
+      end: meeting.end_at,
+      status: meeting.status,
+      menteeId: meeting.mentee_id,
+      mentorId: meeting.mentor_id,
+      partner: { id: partnerId, name: partner?.full_name ?? 'Your match', timeZone: partner?.time_zone ?? null },
+      conferenceLink: meeting.calendar_event?.conference_link ?? null,
+      calendarSynced: !!meeting.calendar_event_id,
+      series: meeting.series_id && meeting.series ? { id: meeting.series_id, frequency: meeting.series.frequency } : null,
+    };
+  });
+}
+
+// Display helpers; pass the viewer's zone (see resolveTimeZone) so both
+// participants see the meeting on their own clock.
+export function formatMeetingDate(meeting: Pick<MeetingSummary, 'start'>, timeZone: string): string {
+  return new Date(meeting.start).toLocaleDateString('en-US', { timeZone, month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function formatClockTime(instant: string, timeZone: string): string {
+  return new Date(instant).toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+}
+
+export function formatMeetingTime(meeting: Pick<MeetingSummary, 'start' | 'end'>, timeZone: string): string {
+  return `${formatClockTime(meeting.start, timeZone)} - ${formatClockTime(meeting.end, timeZone)}`;
+}
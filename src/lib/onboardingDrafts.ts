@@ -0,0 +1,108 @@
+// src/lib/onboardingDrafts.ts
+// Server-persisted drafts of the onboarding wizard, so users can finish
+// onboarding across sessions and devices. One draft per user.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+import type { OnboardingFormValues } from './onboardingSchema.ts';
+
+// Drafts not touched for this long are discarded.
+export const ONBOARDING_DRAFT_TTL_DAYS = 30;
+export const ONBOARDING_STEP_COUNT = 3;
+const MAX_DRAFT_BYTES = 64 * 1024;
+
+// Everything the form holds except the resume File, which cannot be serialized.
+export type OnboardingDraftData = Partial<Omit<OnboardingFormValues, 'resume'>>;
+
+// Row in the 'onboarding_drafts' table.
+export interface OnboardingDraftRow {
+  user_id: string; // Primary key, foreign key to auth.users.id
+  step: number; // Furthest step reached, 1-based
+  data: OnboardingDraftData; // jsonb
+  updated_at: string; // timestamptz
+  expires_at: string; // timestamptz
+}
+
+// Drafts hold unfinished answers, so fields are not validated beyond their
+// size; the full schema applies on submit.
+export const onboardingDraftSchema = z.object({
+  step: z.number().int().min(1).max(ONBOARDING_STEP_COUNT),
+  data: z.record(z.string(), z.unknown())
+    .refine((data) => JSON.stringify(data).length <= MAX_DRAFT_BYTES, { message: 'Draft is too large.' })
+    .transform((data) => {
+      const copy = { ...data };
+      delete copy.resume;
+      return copy as OnboardingDraftData;
+    }),
+});
+
+export type OnboardingDraftInput = z.infer<typeof onboardingDraftSchema>;
+
+function draftExpiry(from: Date): string {
+  return new Date(from.getTime() + ONBOARDING_DRAFT_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Load the user's draft. Expired drafts are deleted and reported as missing.
+ */
+export async function loadOnboardingDraft(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<OnboardingDraftRow | null> {
+  const { data, error } = await supabase
+    .from('onboarding_drafts')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle<OnboardingDraftRow>();
+
+  if (error) {
+    console.error(`[loadOnboardingDraft] Error loading draft for user "${userId}":`, error);
+    throw new Error('Failed to load onboarding draft.');
+  }
+  if (data && new Date(data.expires_at).getTime() <= Date.now()) {
+    console.log(`[loadOnboardingDraft] Draft for user "${userId}" expired at ${data.expires_at}; discarding.`);
+    await deleteOnboardingDraft(supabase, userId);
+    return null;
+  }
+  return data;
+}
+
+// Saving pushes the expiry out again, so only abandoned drafts expire.
+export async function saveOnboardingDraft(
+  supabase: SupabaseClient,
+  userId: string,
+  draft: OnboardingDraftInput
+): Promise<OnboardingDraftRow> {
+  const now = new Date();
+  const row: OnboardingDraftRow = {
+    user_id: userId,
+    step: draft.step,
+    data: draft.data,
+    updated_at: now.toISOString(),
+    expires_at: draftExpiry(now),
+  };
+
+  const { data, error } = await supabase
+    .from('onboarding_drafts')
+    .upsert(row, { onConflict: 'user_id' })
+    .select()
+    .single<OnboardingDraftRow>();
+
+  if (error) {
+    console.error(`[saveOnboardingDraft] Error saving draft for user "${userId}":`, error);
+    throw new Error('Failed to save onboarding draft.');
+  }
+  return data ?? row;
+}
+
+export async function deleteOnboardingDraft(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('onboarding_drafts')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error(`[deleteOnboardingDraft] Error deleting draft for user "${userId}":`, error);
+    throw new Error('Failed to delete onboarding draft.');
+  }
+}
@@ -0,0 +1,257 @@
+// src/lib/onboardingSchema.ts
+// Onboarding payload shared by the onboarding page and the API: the form
+// options, the zod schema that validates them, and the mapping to the
+// 'user_onboarding_details' row.
+import { z } from "zod";
+
+import type { UserOnboardingDetails } from "./profiles.ts";
+import { isValidTimeZone } from "./timeZones.ts";
+
+export interface SelectableItem { id: string; label: string; }
+
+// Static data for form options
+export const industriesData: SelectableItem[] = [
+    { id: "tech", label: "Technology" }, { id: "healthcare", label: "Healthcare" },
+    { id: "education", label: "Education" }, { id: "law", label: "Law" },
+    { id: "finance", label: "Finance" }, { id: "nonprofit", label: "Nonprofit" },
+    { id: "media", label: "Media" }, { id: "retail", label: "Retail" },
+    { id: "manufacturing", label: "Manufacturing" }, { id: "consulting", label: "Consulting" },
+    { id: "government", label: "Government" }, { id: "other", label: "Other" },
+];
+export const languagesData: SelectableItem[] = [
+    { id: "english", label: "English" }, { id: "spanish", label: "Spanish" },
+    { id: "french", label: "French" }, { id: "german", label: "German" },
+    { id: "chinese", label: "Chinese (Mandarin)"}, { id: "hindi", label: "Hindi"},
+    { id: "arabic", label: "Arabic"}, { id: "portuguese", label: "Portuguese"},
+    { id: "russian", label: "Russian"}, { id: "japanese", label: "Japanese"},
+    { id: "other", label: "Other"},
+];
+export const helpAreasData: SelectableItem[] = [
+    { id: "resume-review", label: "Resume Review" }, { id: "career-advice", label: "Career Advice" },
+    { id: "interview-prep", label: "Interview Prep" }, { id: "networking", label: "Networking Strategies" },
+    { id: "skill-development", label: "Skill Development" }, { id: "work-life-balance", label: "Work-Life Balance" },
+    { id: "leadership", label: "Leadership Skills" }, { id: "grad-school", label: "Graduate School Advice" },
+    { id: "industry-transition", label: "Industry Transition" }, {id: "public-speaking", label: "Public Speaking"},
+    {id: "salary-negotiation", label: "Salary Negotiation"}, {id: "entrepreneurship", label: "Entrepreneurship"},
+];
+export const meetingCadenceOptions: SelectableItem[] = [
+    { id: "weekly", label: "Weekly" },
+    { id: "biweekly", label: "Every two weeks" },
+    { id: "monthly", label: "Monthly" },
+];
+export const careerStageOptions: SelectableItem[] = [
+    { id: "student-high-school", label: "High School Student" },
+    { id: "student-undergrad", label: "Undergraduate Student" },
+    { id: "student-grad", label: "Graduate Student" },
+    { id: "entry-level", label: "Entry Level (0-2 years exp.)" },
+    { id: "early-career", label: "Early Career (2-5 years exp.)" },
+    { id: "mid-career", label: "Mid-Career (5-10 years exp.)" },
+    { id: "senior-career", label: "Senior Career (10+ years exp.)" },
+    { id: "career-changer", label: "Career Changer" },
+    { id: "executive-level", label: "Executive Level"},
+    { id: "other", label: "Other" },
+];
+
+function optionIdSchema(items: SelectableItem[], label: string) {
+  const ids = new Set(items.map((item) => item.id));
+  return z.string().refine((id) => ids.has(id), (id) => ({ message: `Unknown ${label} "${id}".` }));
+}
+
+// Fields both roles fill in.
+const sharedProfileFields = {
+  fullName: z.string().min(2, {
+    message: "Full name must be at least 2 characters.",
+  }),
+  linkedinProfile: z.string().url({ message: "Please enter a valid URL (e.g., https://linkedin.com/...)." }).optional().or(z.literal('')),
+  location: z.string().min(2, {
+    message: "Please enter your current location.",
+  }),
+  timeZone: z.string().refine(isValidTimeZone, {
+    message: "Please select your time zone.",
+  }),
+  careerStage: z.string({
+    required_error: "Please select your career stage.",
+  }).pipe(optionIdSchema(careerStageOptions, "career stage")),
+  industries: z.array(optionIdSchema(industriesData, "industry")).min(1, {
+    message: "Please select at least one industry.",
+  }),
+  languages: z.array(optionIdSchema(languagesData, "language")).min(1, {
+    message: "Please select at least one language.",
+  }),
+  helpAreas: z.array(optionIdSchema(helpAreasData, "help area")).min(1, {
+    message: "Please select at least one area.",
+  }),
+};
+
+const menteeOnlyFields = {
+  shortTermGoals: z.string().min(10, {
+    message: "Short-term goals must be at least 10 characters.",
+  }),
+  longTermGoals: z.string().min(10, {
+    message: "Long-term goals must be at least 10 characters.",
+  }),
+};
+
+export const MAX_MENTEE_CAPACITY = 5;
+
+const mentorOnlyFields = {
+  menteeCapacity: z.number({
+    required_error: "Please choose how many mentees you can take on.",
+    invalid_type_error: "Please choose how many mentees you can take on.",
+  }).int().min(1).max(MAX_MENTEE_CAPACITY, {
+    message: `You can mentor at most ${MAX_MENTEE_CAPACITY} mentees at a time.`,
+  }),
+  meetingCadence: z.string({
+    required_error: "Please select how often you can meet.",
+  }).pipe(optionIdSchema(meetingCadenceOptions, "meeting cadence")),
+  expertise: z.string().min(10, {
+    message: "Please describe your expertise in at least 10 characters.",
+  }),
+  whyMentor: z.string().min(10, {
+    message: "Please tell us why you want to mentor in at least 10 characters.",
+  }),
+  preferredMenteeStages: z.array(optionIdSchema(careerStageOptions, "career stage")).min(1, {
+    message: "Please select at least one career stage.",
+  }),
+};
+
+export const menteeOnboardingSchema = z.object({
+  role: z.literal("mentee"),
+  ...sharedProfileFields,
+  ...menteeOnlyFields,
+});
+
+export const mentorOnboardingSchema = z.object({
+  role: z.literal("mentor"),
+  ...sharedProfileFields,
+  ...mentorOnlyFields,
+});
+
+// Fields sent as the 'jsonData' part of the onboarding submission.
+export const onboardingDataSchema = z.discriminatedUnion(
+  "role",
+  [menteeOnboardingSchema, mentorOnboardingSchema],
+  {
+    errorMap: (issue, ctx) =>
+      issue.code === z.ZodIssueCode.invalid_union_discriminator
+        ? { message: "Please select your role." }
+        : { message: ctx.defaultError },
+  }
+);
+
+export type MenteeOnboardingData = z.infer<typeof menteeOnboardingSchema>;
+export type MentorOnboardingData = z.infer<typeof mentorOnboardingSchema>;
+export type OnboardingData = z.infer<typeof onboardingDataSchema>;
+
+const roleSpecificFields = new Set([...Object.keys(menteeOnlyFields), ...Object.keys(mentorOnlyFields)]);
+
+// The form keeps both roles' answers, so switching role mid-form loses nothing.
+// Role-specific fields are only type-checked here; their rules come from the
+// union above, applied for the selected role. Submit the result of
+// onboardingDataSchema.parse(values), which drops the other role's answers.
+// Note: If resume needs to be conditionally required (e.g., for mentees),
+// add that check to the superRefine below.
+// The current schema makes the resume optional for everyone.
+export const onboardingFormSchema = z.object({
+  role: z.enum(["mentee", "mentor"], {
+    required_error: "Please select your role.",
+  }),
+  ...sharedProfileFields,
+  shortTermGoals: z.string(),
+  longTermGoals: z.string(),
+  menteeCapacity: z.number().optional(),
+  meetingCadence: z.string().optional(),
+  expertise: z.string(),
+  whyMentor: z.string(),
+  preferredMenteeStages: z.array(z.string()),
+  resume: z.custom<File>((val): val is File => val === undefined || val instanceof File, {
+    message: "Please upload a valid resume file.",
+  }).optional(), // Resume is optional as per this schema definition
+}).superRefine((values, ctx) => {
+  const result = onboardingDataSchema.safeParse(values);
+  if (result.success) return;
+  // Shared fields already report their own issues.
+  result.error.issues
+    .filter((issue) => roleSpecificFields.has(String(issue.path[0])))
+    .forEach((issue) => ctx.addIssue(issue));
+});
+
+export type OnboardingFormValues = z.infer<typeof onboardingFormSchema>;
+
+// Resume upload limits, checked in the browser and again by the API.
+export const RESUME_MAX_BYTES = 5 * 1024 * 1024;
+export const RESUME_ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword',
+];
+
+// --- Row Mapping ---
+// The form uses camelCase and a single helpAreas list; the table uses
+// snake_case and splits help areas by role. Each role's own columns are
+// cleared for the other role, so switching roles leaves no stale answers.
+
+// Columns set by onboarding; the cohort and resume columns are managed elsewhere.
+export type OnboardingDetailsRow = Omit<UserOnboardingDetails, "cohort_id" | `resume_${string}`>;
+
+export function onboardingDataToRow(
+  data: OnboardingData,
+  user: { id: string; email: string },
+  updatedAt: string = new Date().toISOString()
+): OnboardingDetailsRow {
+  const isMentee = data.role === "mentee";
+  return {
+    user_id: user.id,
+    email: user.email,
+    role: data.role,
+    full_name: data.fullName,
+    linkedin_profile: data.linkedinProfile || null,
+    location: data.location,
+    time_zone: data.timeZone,
+    career_stage: data.careerStage,
+    industries: data.industries,
+    languages: data.languages,
+    short_term_goals: isMentee ? data.shortTermGoals : null,
+    long_term_goals: isMentee ? data.longTermGoals : null,
+    help_areas_seeking: isMentee ? data.helpAreas : null,
+    help_areas_offering: isMentee ? null : data.helpAreas,
+    mentee_capacity: isMentee ? null : data.menteeCapacity,
+    meeting_cadence: isMentee ? null : data.meetingCadence,
+    expertise: isMentee ? null : data.expertise,
+    why_mentor: isMentee ? null : data.whyMentor,
+    preferred_mentee_stages: isMentee ? null : data.preferredMenteeStages,
+    updated_at: updatedAt,
+  };
+}
+
+// Form values for an existing profile, e.g. to prefill an edit form.
+export function rowToOnboardingData(row: UserOnboardingDetails): OnboardingData {
+  const shared = {
+    fullName: row.full_name,
+    linkedinProfile: row.linkedin_profile ?? "",
+    location: row.location ?? "",
+    timeZone: row.time_zone ?? "",
+    careerStage: row.career_stage ?? "",
+    industries: row.industries ?? [],
+    languages: row.languages ?? [],
+  };
+  if (row.role === "mentee") {
+    return {
+      role: "mentee",
+      ...shared,
+      helpAreas: row.help_areas_seeking ?? [],
+      shortTermGoals: row.short_term_goals ?? "",
+      longTermGoals: row.long_term_goals ?? "",
+    };
+  }
+  return {
+    role: "mentor",
+    ...shared,
+    helpAreas: row.help_areas_offering ?? [],
+    menteeCapacity: row.mentee_capacity ?? 1,
+    meetingCadence: row.meeting_cadence ?? "",
+    expertise: row.expertise ?? "",
+    whyMentor: row.why_mentor ?? "",
+    preferredMenteeStages: row.preferred_mentee_stages ?? [],
+  };
+}
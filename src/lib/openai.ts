@@ -20,6 +20,9 @@ function getOpenAIClient(): OpenAI {
   return _openaiClient;
 }
 
+export const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small"; // Using a more cost-effective model
+export const OPENAI_EMBEDDING_DIMENSION = 1536;
+
 /**
  * Create an embedding for the given text
  * This function must only be called from server-side code
@@ -30,7 +33,7 @@ export async function createEmbedding(text: string): Promise<number[]> {
   try {
     const client = getOpenAIClient();
     const response = await client.embeddings.create({
-      model: "text-embedding-3-small",  // Using a more cost-effective model
+      model: OPENAI_EMBEDDING_MODEL,
       input: text,
     });
     
@@ -41,6 +44,30 @@ export async function createEmbedding(text: string): Promise<number[]> {
   }
 }
 
+/**
+ * Create embeddings for several texts in a single request
+ * Results are returned in the same order as the input texts
+ */
+export async function createEmbeddings(texts: string[]): Promise<number[][]> {
+  ensureServer("createEmbeddings");
+  if (texts.length === 0) return [];
+  
+  try {
+    const client = getOpenAIClient();
+    const response = await client.embeddings.create({
+      model: OPENAI_EMBEDDING_MODEL,
+      input: texts,
+    });
+    
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  } catch (error) {
+    console.error("Error creating embeddings:", error);
+    throw new Error("Failed to create embeddings");
+  }
+}
+
 /**
  * Generate a response using the OpenAI API
  */
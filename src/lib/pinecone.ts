@@ -1,16 +1,21 @@
 import {
-  Pinecone,
-  Index,
-  IndexModel,
   PineconeRecord as SDKPineconeRecord,
   // QueryOptions, // This is a union type in the SDK, often better to type options structurally for specific query types
 } from "@pinecone-database/pinecone";
 
-import { createEmbedding } from "./openai.ts";
+import { getEmbeddingProvider } from "./embeddings.ts";
 import { ensureServer } from "./env.ts";
+import { cosineSimilarity, getVectorStore, VectorQueryOptions } from "./vectorStore.ts";
+
+export { cosineSimilarity } from "./vectorStore.ts";
 
 export const RESPONSES_INDEX = "responses";
-const EXPECTED_EMBEDDING_DIMENSION = 1536;
+
+// The index dimension follows the active embedding provider (see embeddings.ts),
+// e.g. 1536 for OpenAI text-embedding-3-small.
+export function getExpectedEmbeddingDimension(): number {
+  return getEmbeddingProvider().dimension;
+}
 
 // --- Official Pinecone Metadata Types (based on SDK v6.0.0) ---
 export type PineconeMetadataValue = string | boolean | number | string[];
@@ -41,61 +46,25 @@ interface FormSpecificMetadataSpecificProps {
 export interface FormSpecificMetadata extends BasePineconeMetadata, FormSpecificMetadataSpecificProps {}
 
 
-// --- Pinecone Client Initialization ---
-let _pineconeClient: Pinecone | null = null;
-
-function getPineconeClient(): Pinecone {
-  ensureServer("getPineconeClient");
-  if (!_pineconeClient) {
-    if (!process.env.PINECONE_API_KEY) {
-      console.error("[getPineconeClient] PINECONE_API_KEY is not set.");
-      throw new Error("PINECONE_API_KEY environment variable is not set");
-    }
-    _pineconeClient = new Pinecone({
-      apiKey: process.env.PINECONE_API_KEY,
-    });
-    console.log("[getPineconeClient] Pinecone client initialized.");
-  }
-  return _pineconeClient;
-}
-
 // --- Index Initialization and Management ---
+// All index access goes through the configured VectorStore (see vectorStore.ts),
+// so these helpers work against Pinecone or the in-memory backend alike.
 export async function initializeIndex() {
-  console.log(`[initializeIndex] Checking for Pinecone index: "${RESPONSES_INDEX}"`);
-  const client = getPineconeClient();
+  console.log(`[initializeIndex] Checking for index: "${RESPONSES_INDEX}"`);
   try {
-    const { indexes } = await client.listIndexes();
-    const indexExists = indexes?.some((index: IndexModel) => index.name === RESPONSES_INDEX);
-
-    if (!indexExists) {
-      console.log(`[initializeIndex] Index "${RESPONSES_INDEX}" does not exist. Creating now...`);
-      await client.createIndex({
-        name: RESPONSES_INDEX,
-        dimension: EXPECTED_EMBEDDING_DIMENSION,
-        metric: 'cosine',
-        spec: {
-          serverless: { cloud: 'aws', region: 'us-east-1' }
-        }
-      });
-      console.log(`[initializeIndex] Index "${RESPONSES_INDEX}" created. It may take moments to be ready.`);
-    } else {
-      console.log(`[initializeIndex] Index "${RESPONSES_INDEX}" already exists.`);
-    }
+    await getVectorStore(RESPONSES_INDEX).ensureIndex(getExpectedEmbeddingDimension());
+    console.log(`[initializeIndex] Index "${RESPONSES_INDEX}" is available. A newly created Pinecone index may take moments to be ready.`);
   } catch (error) {
-    console.error("[initializeIndex] Error initializing Pinecone index:", error);
+    console.error("[initializeIndex] Error initializing index:", error);
     throw error;
   }
 }
 
-const getIndex = <TMetadata extends BasePineconeMetadata = StorableMetadata>(): Index<TMetadata> =>
-  getPineconeClient().Index<TMetadata>(RESPONSES_INDEX);
-
 export async function clearPineconeIndex(indexName: string = RESPONSES_INDEX) {
   ensureServer("clearPineconeIndex");
   console.log(`[clearPineconeIndex] Clearing index: "${indexName}"`);
   try {
-    const index = getPineconeClient().Index<BasePineconeMetadata>(indexName);
-    await index.deleteAll();
+    await getVectorStore(indexName).deleteAll();
     console.log(`[clearPineconeIndex] Successfully cleared index: "${indexName}".`);
   } catch (error) {
     console.error(`[clearPineconeIndex] Error clearing index "${indexName}":`, error);
@@ -111,11 +80,68 @@ export async function clearPineconeIndex(indexName: string = RESPONSES_INDEX) {
 // InputStorableMetadata now explicitly has 'type' and 'name' as strings,
 // and omits 'originalText' from the specific props.
 // It also allows for other arbitrary keys compatible with BasePineconeMetadata.
-type InputStorableMetadata = {
+// Records are keyed on 'user_id' (the Supabase user id) or on an explicit 'id'; see Record IDs below.
+export type InputStorableMetadata = {
     type: string;
     name: string;
+    user_id?: string;
+    id?: string; // Explicit record ID, for records that do not belong to a user account
 } & Omit<BasePineconeMetadata, 'type' | 'name' | 'originalText'>; // Allow other base metadata keys
 
+// --- Record IDs ---
+// Profile records are keyed on the Supabase user id ("user-<uuid>"), or on an
+// explicit 'id' in the metadata. Names are never part of the ID: two people can
+// share a name, and a rename must not orphan the old vector. Records written
+// before this scheme used `${type}-${slugified name}`; migrateLegacyRecordIds
+// re-keys them.
+const USER_RECORD_ID_PREFIX = "user-";
+
+export function getUserRecordId(userId: string): string {
+  return `${USER_RECORD_ID_PREFIX}${userId}`;
+}
+
+function legacyRecordId(type: string, name: string): string {
+  const idSuffix = name.replace(/[^a-zA-Z0-9\s-]/g, '').replace(/\s+/g, '-').toLowerCase();
+  return `${type}-${idSuffix}`;
+}
+
+function buildRecordId(metadata: InputStorableMetadata): string {
+  if (typeof metadata.id === 'string' && metadata.id.trim() !== '') {
+    return metadata.id;
+  }
+  if (typeof metadata.user_id === 'string' && metadata.user_id.trim() !== '') {
+    return getUserRecordId(metadata.user_id);
+  }
+  throw new Error(`Cannot build a record ID for "${metadata.name}": metadata needs a user_id or an explicit id.`);
+}
+
+function buildStorableRecord(
+  id: string,
+  text: string,
+  metadata: InputStorableMetadata,
+  embedding: number[]
+): SDKPineconeRecord<StorableMetadata> {
+  // Construct fullMetadata.
+  // Spread metadata to include any other BasePineconeMetadata properties.
+  // Then explicitly set type, name (which are already strings from InputStorableMetadata)
+  // and the new originalText.
+  const baseMetadata = { ...metadata } as BasePineconeMetadata;
+  delete baseMetadata.id; // Already the record ID; no need to duplicate it in metadata
+
+  const fullMetadata: StorableMetadata = {
+    ...baseMetadata, // Spread other potential base metadata fields
+    type: metadata.type, // Explicitly from InputStorableMetadata (string)
+    name: metadata.name, // Explicitly from InputStorableMetadata (string)
+    originalText: text.substring(0, 1000)
+  };
+
+  return {
+    id,
+    values: embedding,
+    metadata: fullMetadata
+  };
+}
+
 export async function storeResponseEmbedding(
   text: string,
   metadata: InputStorableMetadata // metadata.type and metadata.name are now strongly typed as string
@@ -126,42 +152,25 @@ export async function storeResponseEmbedding(
     return;
   }
 
-  const index = getIndex<StorableMetadata>();
+  const store = getVectorStore(RESPONSES_INDEX);
+  const generatedId = buildRecordId(metadata);
   let embedding: number[];
 
   try {
-    embedding = await createEmbedding(text);
-    if (embedding.length !== EXPECTED_EMBEDDING_DIMENSION) {
-      throw new Error(`Embedding dimension mismatch for "${metadata.name}". Expected ${EXPECTED_EMBEDDING_DIMENSION}, got ${embedding.length}.`);
+    const provider = getEmbeddingProvider();
+    embedding = await provider.embed(text);
+    if (embedding.length !== provider.dimension) {
+      throw new Error(`Embedding dimension mismatch for "${metadata.name}". Expected ${provider.dimension}, got ${embedding.length}.`);
     }
   } catch (error) {
     console.error(`[storeResponseEmbedding] Failed to create embedding for "${metadata.name}":`, error);
     throw error;
   }
 
-  // metadata.name is now guaranteed to be a string due to InputStorableMetadata's definition.
-  const idSuffix = metadata.name.replace(/[^a-zA-Z0-9\s-]/g, '').replace(/\s+/g, '-').toLowerCase();
-  const generatedId = `${metadata.type}-${idSuffix}`;
-
-  // Construct fullMetadata.
-  // Spread metadata to include any other BasePineconeMetadata properties.
-  // Then explicitly set type, name (which are already strings from InputStorableMetadata)
-  // and the new originalText.
-  const fullMetadata: StorableMetadata = {
-    ...(metadata as BasePineconeMetadata), // Spread other potential base metadata fields
-    type: metadata.type, // Explicitly from InputStorableMetadata (string)
-    name: metadata.name, // Explicitly from InputStorableMetadata (string)
-    originalText: text.substring(0, 1000)
-  };
-
-  const recordToUpsert: SDKPineconeRecord<StorableMetadata> = {
-    id: generatedId,
-    values: embedding,
-    metadata: fullMetadata
-  };
+  const recordToUpsert = buildStorableRecord(generatedId, text, metadata, embedding);
 
   try {
-    await index.upsert([recordToUpsert]);
+    await store.upsert([recordToUpsert]);
     console.log(`[storeResponseEmbedding] Upserted ID "${generatedId}" for "${metadata.name}".`);
   } catch (error)
  {
@@ -170,21 +179,305 @@ export async function storeResponseEmbedding(
   }
 }
 
+// --- Bulk Embedding Storage ---
+// Used when importing a whole cohort at once. Texts are embedded in batches
+// (one provider request per batch), records are upserted in chunks that stay
+// under Pinecone's request limits, and every item gets its own result so a
+// failing batch does not abort the import. Passing the completedIds from a
+// previous run's progress lets an interrupted import resume where it stopped.
+
+// Pinecone accepts at most 1000 records / 2MB per upsert request; stay well below both.
+const DEFAULT_EMBEDDING_BATCH_SIZE = 64;
+const DEFAULT_UPSERT_BATCH_SIZE = 100;
+const MAX_UPSERT_REQUEST_BYTES = 2 * 1024 * 1024;
+const DEFAULT_BULK_CONCURRENCY = 2;
+const DEFAULT_BULK_MAX_RETRIES = 2;
+
+export interface ResponseEmbeddingItem {
+  text: string;
+  metadata: InputStorableMetadata;
+}
+
+export type BulkStoreItemStatus = "stored" | "skipped" | "failed";
+
+export interface BulkStoreItemResult {
+  index: number; // Position of the item in the input array
+  id: string;
+  name: string;
+  status: BulkStoreItemStatus;
+  error?: string;
+}
+
+export interface BulkStoreProgress {
+  total: number;
+  processed: number;
+  stored: number;
+  skipped: number;
+  failed: number;
+  // Every record ID stored so far, including those carried over from a resumed run.
+  completedIds: string[];
+}
+
+export interface StoreResponseEmbeddingsOptions {
+  embeddingBatchSize?: number;
+  upsertBatchSize?: number;
+  concurrency?: number; // Maximum number of embedding batches in flight
+  maxRetries?: number; // Retries per embedding request or upsert chunk
+  completedIds?: Iterable<string>; // Record IDs already stored by a previous run; these items are skipped
+  onProgress?: (progress: BulkStoreProgress) => void | Promise<void>;
+}
+
+export interface BulkStoreResult extends BulkStoreProgress {
+  results: BulkStoreItemResult[];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function withRetries<T>(label: string, maxRetries: number, operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries) throw error;
+      const delay = 500 * 2 ** attempt;
+      console.warn(`[storeResponseEmbeddings] ${label} failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${delay}ms:`, errorMessage(error));
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const current = next++;
+      results[current] = await tasks[current]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+  return results;
+}
+
+function chunkForUpsert<T extends { record: SDKPineconeRecord<StorableMetadata> }>(entries: T[], maxRecords: number): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentBytes = 0;
+  for (const entry of entries) {
+    const recordBytes = JSON.stringify(entry.record).length;
+    if (current.length > 0 && (current.length >= maxRecords || currentBytes + recordBytes > MAX_UPSERT_REQUEST_BYTES)) {
+      chunks.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(entry);
+    currentBytes += recordBytes;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+export async function storeResponseEmbeddings(
+  items: ResponseEmbeddingItem[],
+  options: StoreResponseEmbeddingsOptions = {}
+): Promise<BulkStoreResult> {
+  ensureServer("storeResponseEmbeddings");
+  const embeddingBatchSize = options.embeddingBatchSize ?? DEFAULT_EMBEDDING_BATCH_SIZE;
+  const upsertBatchSize = options.upsertBatchSize ?? DEFAULT_UPSERT_BATCH_SIZE;
+  const concurrency = options.concurrency ?? DEFAULT_BULK_CONCURRENCY;
+  const maxRetries = options.maxRetries ?? DEFAULT_BULK_MAX_RETRIES;
+  console.log(`[storeResponseEmbeddings] Storing ${items.length} item(s) in batches of ${embeddingBatchSize} (concurrency ${concurrency}).`);
+
+  const provider = getEmbeddingProvider();
+  const store = getVectorStore(RESPONSES_INDEX);
+  const completedIds = new Set(options.completedIds ?? []);
+  const results: BulkStoreItemResult[] = new Array(items.length);
+  const progress: BulkStoreProgress = { total: items.length, processed: 0, stored: 0, skipped: 0, failed: 0, completedIds: [] };
+
+  const record = (result: BulkStoreItemResult) => {
+    results[result.index] = result;
+    progress.processed++;
+    progress[result.status]++;
+    if (result.status === "stored") completedIds.add(result.id);
+  };
+  const reportProgress = async () => {
+    if (options.onProgress) {
+      await options.onProgress({ ...progress, completedIds: [...completedIds] });
+    }
+  };
+
+  // Skip already-stored and empty items up front; only the rest need embedding.
+  const pending: Array<{ index: number; id: string; item: ResponseEmbeddingItem }> = [];
+  items.forEach((item, index) => {
+    let id: string;
+    try {
+      id = buildRecordId(item.metadata);
+    } catch (error) {
+      record({ index, id: "", name: item.metadata.name, status: "failed", error: errorMessage(error) });
+      return;
+    }
+    if (completedIds.has(id)) {
+      record({ index, id, name: item.metadata.name, status: "skipped" });
+    } else if (!item.text || item.text.trim() === "") {
+      record({ index, id, name: item.metadata.name, status: "skipped", error: "Empty text" });
+    } else {
+      pending.push({ index, id, item });
+    }
+  });
+  if (progress.processed > 0) await reportProgress();
+
+  const batches: Array<typeof pending> = [];
+  for (let i = 0; i < pending.length; i += embeddingBatchSize) {
+    batches.push(pending.slice(i, i + embeddingBatchSize));
+  }
+
+  await runWithConcurrency(batches.map((batch, batchNumber) => async () => {
+    let embeddings: number[][];
+    try {
+      embeddings = await withRetries(`Embedding batch ${batchNumber + 1}`, maxRetries, () =>
+        provider.embedBatch(batch.map(({ item }) => item.text))
+      );
+      if (embeddings.length !== batch.length) {
+        throw new Error(`Embedding provider returned ${embeddings.length} embeddings for ${batch.length} texts.`);
+      }
+    } catch (error) {
+      console.error(`[storeResponseEmbeddings] Embedding batch ${batchNumber + 1} failed:`, error);
+      batch.forEach(({ index, id, item }) => record({ index, id, name: item.metadata.name, status: "failed", error: errorMessage(error) }));
+      await reportProgress();
+      return;
+    }
+
+    const entries = batch.map((entry, i) => ({
+      ...entry,
+      record: buildStorableRecord(entry.id, entry.item.text, entry.item.metadata, embeddings[i]),
+    }));
+    for (const chunk of chunkForUpsert(entries, upsertBatchSize)) {
+      let chunkError: unknown = null;
+      const mismatched = chunk.find(({ record }) => record.values?.length !== provider.dimension);
+      if (mismatched) {
+        chunkError = new Error(`Embedding dimension mismatch for "${mismatched.id}". Expected ${provider.dimension}, got ${mismatched.record.values?.length}.`);
+      } else {
+        try {
+          await withRetries(`Upsert of ${chunk.length} record(s)`, maxRetries, () => store.upsert(chunk.map(({ record }) => record)));
+        } catch (error) {
+          console.error(`[storeResponseEmbeddings] Upsert failed for ${chunk.length} record(s):`, error);
+          chunkError = error;
+        }
+      }
+      for (const { index, id, item } of chunk) {
+        record(chunkError
+          ? { index, id, name: item.metadata.name, status: "failed", error: errorMessage(chunkError) }
+          : { index, id, name: item.metadata.name, status: "stored" });
+      }
+      await reportProgress();
+    }
+  }), concurrency);
+
+  console.log(`[storeResponseEmbeddings] Done: ${progress.stored} stored, ${progress.skipped} skipped, ${progress.failed} failed.`);
+  return { ...progress, completedIds: [...completedIds], results };
+}
+
+// --- User Lookup and Legacy ID Migration ---
+
+// A unit vector for metadata-only scans; Pinecone rejects all-zero query vectors on cosine indexes.
+function metadataScanVector(): number[] {
+  const vector = new Array(getExpectedEmbeddingDimension()).fill(0);
+  vector[0] = 1;
+  return vector;
+}
+
+/**
+ * Find the vector record ID stored for a Supabase user, or null if the user has none.
+ * Checks the canonical "user-<uuid>" ID first, then records stored under an explicit ID.
+ */
+export async function findRecordIdForUser(userId: string): Promise<string | null> {
+  ensureServer("findRecordIdForUser");
+  const store = getVectorStore(RESPONSES_INDEX);
+  const canonicalId = getUserRecordId(userId);
+  try {
+    const records = await store.fetch([canonicalId]);
+    if (records[canonicalId]) return canonicalId;
+
+    const matches = await store.query({
+      vector: metadataScanVector(),
+      topK: 1,
+      filter: { user_id: { $eq: userId } },
+      includeMetadata: false,
+      includeValues: false,
+    });
+    return matches[0]?.id ?? null;
+  } catch (error) {
+    console.error(`[findRecordIdForUser] Error looking up record for user "${userId}":`, error);
+    throw error;
+  }
+}
+
+export type LegacyRecordUserResolver = (record: PineconeMatch<StorableMetadata>) => Promise<string | null>;
+
+export interface LegacyRecordMigrationReport {
+  migrated: Array<{ from: string; to: string }>;
+  unresolved: string[]; // Legacy IDs whose user could not be determined; left untouched
+  alreadyMigrated: string[]; // Legacy IDs dropped because the user already has a record under the new scheme
+  dryRun: boolean;
+}
+
+/**
+ * Re-key name-based records ("big-dr-sarah-lee") in the responses index onto the
+ * user-id scheme. `resolveUserId` maps a legacy record to its Supabase user id
+ * (e.g. by the email in its metadata). With dryRun, nothing is written.
+ */
+export async function migrateLegacyRecordIds(
+  resolveUserId: LegacyRecordUserResolver,
+  options: { dryRun?: boolean; batchSize?: number } = {}
+): Promise<LegacyRecordMigrationReport> {
+  ensureServer("migrateLegacyRecordIds");
+  const dryRun = options.dryRun ?? false;
+  const batchSize = options.batchSize ?? 100;
+  const store = getVectorStore(RESPONSES_INDEX);
+  const report: LegacyRecordMigrationReport = { migrated: [], unresolved: [], alreadyMigrated: [], dryRun };
+
+  const candidateIds = (await store.listIds()).filter((id) => !id.startsWith(USER_RECORD_ID_PREFIX));
+  console.log(`[migrateLegacyRecordIds] Checking ${candidateIds.length} record(s) for name-based IDs${dryRun ? " (dry run)" : ""}.`);
+
+  for (let i = 0; i < candidateIds.length; i += batchSize) {
+    const records = await store.fetch<StorableMetadata>(candidateIds.slice(i, i + batchSize));
+    for (const record of Object.values(records)) {
+      const metadata = record.metadata;
+      // Only records whose ID is exactly the old name slug are legacy; explicit IDs are left alone.
+      if (!metadata || metadata.user_id || record.id !== legacyRecordId(metadata.type, metadata.name)) continue;
+
+      const userId = await resolveUserId(record);
+      if (!userId) {
+        console.warn(`[migrateLegacyRecordIds] Could not resolve a user for "${record.id}"; leaving it in place.`);
+        report.unresolved.push(record.id);
+        continue;
+      }
+
+      const newId = getUserRecordId(userId);
+      const existing = await store.fetch([newId]);
+      if (existing[newId]) {
+        // The user re-onboarded after the scheme changed; their newer record wins.
+        report.alreadyMigrated.push(record.id);
+      } else {
+        if (!dryRun) {
+          await store.upsert<StorableMetadata>([{ id: newId, values: record.values, metadata: { ...metadata, user_id: userId } }]);
+        }
+        report.migrated.push({ from: record.id, to: newId });
+      }
+      if (!dryRun) await store.deleteMany([record.id]);
+    }
+  }
+
+  console.log(`[migrateLegacyRecordIds] Migrated ${report.migrated.length}, dropped ${report.alreadyMigrated.length} superseded, ${report.unresolved.length} unresolved.`);
+  return report;
+}
+
 // --- Querying and Similarity ---
 export type PineconeFilterValue = PineconeMetadataValue | { [key: string]: PineconeMetadataValue | PineconeMetadataValue[] | object };
 export type PineconeQueryFilter = Record<string, PineconeFilterValue>;
 
-interface InternalQueryOptions {
-    vector: number[];
-    id?: string;
-    sparseValues?: { indices: number[]; values: number[]; };
-    topK: number;
-    filter?: PineconeQueryFilter; // PineconeQueryFilter is used here
-    includeMetadata?: boolean;
-    includeValues?: boolean;
-    namespace?: string;
-}
-
 export interface PineconeMatch<TMetadata extends BasePineconeMetadata = StorableMetadata> extends SDKPineconeRecord<TMetadata> {
   score?: number;
 }
@@ -202,13 +495,14 @@ export async function findSimilarResponses<TMetadata extends BasePineconeMetadat
     return [];
   }
 
-  const index = getIndex<TMetadata>();
+  const store = getVectorStore(RESPONSES_INDEX);
   let queryEmbedding: number[];
 
   try {
-    queryEmbedding = await createEmbedding(queryText);
-    if (queryEmbedding.length !== EXPECTED_EMBEDDING_DIMENSION) {
-        throw new Error(`Query embedding dimension mismatch! Expected ${EXPECTED_EMBEDDING_DIMENSION}, got ${queryEmbedding.length}.`);
+    const provider = getEmbeddingProvider();
+    queryEmbedding = await provider.embed(queryText);
+    if (queryEmbedding.length !== provider.dimension) {
+        throw new Error(`Query embedding dimension mismatch! Expected ${provider.dimension}, got ${queryEmbedding.length}.`);
     }
   } catch (error) {
     console.error("[findSimilarResponses] Failed to create embedding for query:", error);
@@ -216,7 +510,7 @@ export async function findSimilarResponses<TMetadata extends BasePineconeMetadat
   }
 
   try {
-    const queryOptions: InternalQueryOptions = {
+    const queryOptions: VectorQueryOptions = {
       vector: queryEmbedding,
       topK: limit,
       includeMetadata: true,
@@ -228,45 +522,21 @@ export async function findSimilarResponses<TMetadata extends BasePineconeMetadat
       queryOptions.filter = filter;
     }
 
-    // The 'as any' cast is kept here because InternalQueryOptions (specifically its 'filter' field
-    // of type PineconeQueryFilter) may not perfectly align with the Pinecone SDK's
-    // 'QueryOperationRequest' type if its 'Filter<T>' resolves to a simpler structure like Partial<TMetadata>.
-    // This cast acknowledges that our PineconeQueryFilter is richer to support documented filter capabilities.
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const results = await index.query(queryOptions as any);
-
-    return (results.matches as PineconeMatch<TMetadata>[]) || [];
+    return await store.query<TMetadata>(queryOptions);
   } catch (error) {
-    console.error("[findSimilarResponses] Failed to query Pinecone:", error);
+    console.error("[findSimilarResponses] Failed to query vector store:", error);
     throw error;
   }
 }
 
-export function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error("Vectors must have the same length for cosine similarity.");
-  }
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-  return denominator === 0 ? 0 : dotProduct / denominator;
-}
-
 export async function getSimilarity(pointId1: string, pointId2: string): Promise<number> {
   ensureServer("getSimilarity");
   console.log(`[getSimilarity] Calculating similarity between: "${pointId1}" and "${pointId2}"`);
   try {
-    const index = getIndex<BasePineconeMetadata>();
-    const fetchResult = await index.fetch([pointId1, pointId2]);
+    const records = await getVectorStore(RESPONSES_INDEX).fetch([pointId1, pointId2]);
 
-    const vector1 = fetchResult.records?.[pointId1]?.values;
-    const vector2 = fetchResult.records?.[pointId2]?.values;
+    const vector1 = records[pointId1]?.values;
+    const vector2 = records[pointId2]?.values;
 
     if (!vector1 || !vector2) {
       const missing = !vector1 ? pointId1 : pointId2;
@@ -292,22 +562,16 @@ export async function generateFormConnections(formId: string): Promise<Connectio
   const namespace = 'ns1';
   console.log(`[generateFormConnections] Generating for formId: "${formId}" in namespace "${namespace}"`);
   try {
-    const index = getIndex<FormSpecificMetadata>();
+    const store = getVectorStore(RESPONSES_INDEX);
 
-    const queryOptions: InternalQueryOptions = {
-      vector: new Array(EXPECTED_EMBEDDING_DIMENSION).fill(0),
+    const points = await store.query<FormSpecificMetadata>({
+      vector: new Array(getExpectedEmbeddingDimension()).fill(0),
       topK: 100,
       includeMetadata: true,
       includeValues: true,
       filter: { form_id: { $eq: formId } } as PineconeQueryFilter, // Cast for complex filter object
       namespace: namespace,
-    };
-
-    // Similar to findSimilarResponses, the 'as any' cast is retained for the call to index.query
-    // due to potential discrepancies between our rich PineconeQueryFilter and the SDK's static filter types.
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await index.query(queryOptions as any);
-    const points: PineconeMatch<FormSpecificMetadata>[] = (result.matches as PineconeMatch<FormSpecificMetadata>[]) || [];
+    });
     console.log(`[generateFormConnections] Found ${points.length} points.`);
     const connections: Connection[] = [];
 
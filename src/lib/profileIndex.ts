@@ -0,0 +1,25 @@
+// src/lib/profileIndex.ts
+// Keeps a user's profile vector in the responses index in sync with their onboarding details.
+import { ensureServer } from "./env.ts";
+import { storeResponseEmbedding } from "./pinecone.ts";
+import { buildProfileEmbeddingText, UserOnboardingDetails, vectorRecordTypeForRole } from "./profiles.ts";
+
+/**
+ * Embed the profile and upsert it under the user's record ID, so the user is
+ * matchable straight away. Returns false when the profile has no text to embed.
+ * This function must only be called from server-side code.
+ */
+export async function indexUserProfile(profile: UserOnboardingDetails): Promise<boolean> {
+  ensureServer("indexUserProfile");
+  const text = buildProfileEmbeddingText(profile);
+  if (text.trim() === "") {
+    console.warn(`[indexUserProfile] No profile text to embed for user "${profile.user_id}".`);
+    return false;
+  }
+  await storeResponseEmbedding(text, {
+    type: vectorRecordTypeForRole(profile.role),
+    name: profile.full_name,
+    user_id: profile.user_id,
+  });
+  return true;
+}
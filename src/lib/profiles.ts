@@ -0,0 +1,118 @@
+// src/lib/profiles.ts
+// Shape of a row in the 'user_onboarding_details' table and helpers for turning
+// a profile into the text that is embedded for matching.
+
+export type UserRole = "mentee" | "mentor";
+
+export interface UserOnboardingDetails {
+  user_id: string; // Primary key, foreign key to auth.users.id
+  email: string;
+  role: UserRole;
+  full_name: string;
+  linkedin_profile?: string | null;
+  location?: string;
+  time_zone?: string | null; // IANA zone meeting times are shown in, e.g. "Asia/Kolkata"
+  career_stage?: string;
+  industries?: string[];
+  languages?: string[];
+  short_term_goals?: string | null;
+  long_term_goals?: string | null;
+  help_areas_seeking?: string[] | null;  // For mentees
+  help_areas_offering?: string[] | null; // For mentors
+  resume_file_path?: string | null;
+  // Derived from the uploaded resume by resumeParser.ts
+  resume_text?: string | null;
+  resume_skills?: string[] | null;
+  resume_seniority?: string | null; // Career stage option id
+  resume_industries?: string[] | null;
+  resume_parsed_at?: string | null; // timestamptz
+  cohort_id?: string | null; // Program cohort the user is matched within
+  // Mentors only
+  mentee_capacity?: number | null; // How many mentees they can take
+  meeting_cadence?: string | null; // Meeting cadence option id, e.g. "biweekly"
+  expertise?: string | null;
+  why_mentor?: string | null;
+  preferred_mentee_stages?: string[] | null; // Career stage option ids
+  match_inputs_changed_at?: string | null; // timestamptz; last edit to fields that affect matching
+  updated_at: string; // timestamptz
+}
+
+// Vector record 'type' values used in the responses index ("Bigs" mentor "Littles").
+export const METADATA_TYPE_BIG = 'big';
+export const METADATA_TYPE_LITTLE = 'little';
+
+export function vectorRecordTypeForRole(role: UserRole): string {
+  return role === "mentor" ? METADATA_TYPE_BIG : METADATA_TYPE_LITTLE;
+}
+
+const RESUME_EMBEDDING_CHARS = 2000;
+
+// Profile fields whose changes can change who a user is matched with.
+const MATCH_INPUT_FIELDS = [
+  "short_term_goals",
+  "long_term_goals",
+  "expertise",
+  "help_areas_seeking",
+  "help_areas_offering",
+] as const satisfies readonly (keyof UserOnboardingDetails)[];
+
+export type MatchInputField = (typeof MATCH_INPUT_FIELDS)[number];
+
+function normalizeMatchInput(value: UserOnboardingDetails[MatchInputField]): string {
+  if (Array.isArray(value)) return [...value].sort().join(",");
+  return (value ?? "").trim();
+}
+
+export function changedMatchInputs(
+  before: UserOnboardingDetails,
+  after: Partial<UserOnboardingDetails>
+): MatchInputField[] {
+  return MATCH_INPUT_FIELDS.filter(
+    (field) => field in after && normalizeMatchInput(before[field]) !== normalizeMatchInput(after[field])
+  );
+}
+
+export function formatOptionIds(ids: string[] | null | undefined): string {
+  return (ids ?? []).map((id) => id.replace(/-/g, " ")).join(", ");
+}
+
+/**
+ * Build the free text embedded for a profile. Mentees are described by their
+ * goals and the help they seek, mentors by what they offer, so that a mentee's
+ * text queried against mentor records lands on the relevant expertise.
+ */
+export function buildProfileEmbeddingText(profile: UserOnboardingDetails): string {
+  const parts: string[] = [];
+  if (profile.role === "mentee") {
+    if (profile.short_term_goals || profile.long_term_goals) {
+      parts.push(`Goals: ${[profile.short_term_goals, profile.long_term_goals].filter(Boolean).join(" ")}`);
+    }
+    if (profile.help_areas_seeking?.length) {
+      parts.push(`Seeking help with: ${formatOptionIds(profile.help_areas_seeking)}`);
+    }
+  } else {
+    if (profile.expertise) {
+      parts.push(`Expertise: ${profile.expertise}`);
+    }
+    if (profile.help_areas_offering?.length) {
+      parts.push(`Can help with: ${formatOptionIds(profile.help_areas_offering)}`);
+    }
+    if (profile.preferred_mentee_stages?.length) {
+      parts.push(`Prefers mentees at: ${formatOptionIds(profile.preferred_mentee_stages)}`);
+    }
+  }
+  if (profile.industries?.length) {
+    parts.push(`Industries: ${formatOptionIds(profile.industries)}`);
+  }
+  if (profile.career_stage) {
+    parts.push(`Career stage: ${formatOptionIds([profile.career_stage])}`);
+  }
+  if (profile.resume_skills?.length) {
+    parts.push(`Skills: ${profile.resume_skills.join(", ")}`);
+  }
+  if (profile.resume_text) {
+    // Only the start of the resume, so the structured fields above keep their weight.
+    parts.push(`Resume: ${profile.resume_text.slice(0, RESUME_EMBEDDING_CHARS)}`);
+  }
+  return parts.join(". ");
+}
@@ -0,0 +1,226 @@
+// src/lib/resumeParser.ts
+// Extracts text from uploaded resumes and derives structured insights
+// (skills, seniority, industries) that are stored with the profile and
+// folded into the profile embedding.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { ensureServer } from "./env.ts";
+import type { UserOnboardingDetails } from "./profiles.ts";
+
+export const RESUME_BUCKET = "user-resumes";
+
+const PDF_MIME_TYPE = "application/pdf";
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const DOC_MIME_TYPE = "application/msword";
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: PDF_MIME_TYPE,
+  docx: DOCX_MIME_TYPE,
+  doc: DOC_MIME_TYPE,
+};
+
+// Characters of resume text kept on the profile; enough for a few pages.
+const MAX_STORED_RESUME_CHARS = 20_000;
+
+export interface ResumeInsights {
+  skills: string[];
+  seniority: string | null; // Career stage option id, e.g. "mid-career"
+  industries: string[]; // Industry option ids
+  yearsOfExperience: number | null;
+}
+
+export interface ParsedResume {
+  text: string;
+  insights: ResumeInsights;
+}
+
+// Resume columns on 'user_onboarding_details'.
+export type ResumeColumns = Pick<
+  UserOnboardingDetails,
+  "resume_text" | "resume_skills" | "resume_seniority" | "resume_industries" | "resume_parsed_at"
+>;
+
+/**
+ * Extract plain text from a resume. Legacy .doc files are accepted on upload
+ * but cannot be read here, so they return null.
+ */
+export async function extractResumeText(buffer: Buffer, mimeType: string): Promise<string | null> {
+  ensureServer("extractResumeText");
+  if (mimeType === PDF_MIME_TYPE) {
+    const { default: pdfParse } = await import("pdf-parse/lib/pdf-parse.js");
+    const result = await pdfParse(buffer);
+    return result.text;
+  }
+  if (mimeType === DOCX_MIME_TYPE) {
+    const mammoth = await import("mammoth");
+    const result = await mammoth.extractRawText({ buffer });
+    return result.value;
+  }
+  if (mimeType === DOC_MIME_TYPE) {
+    console.warn("[extractResumeText] Legacy .doc resumes are not supported for text extraction.");
+    return null;
+  }
+  throw new Error(`Unsupported resume type "${mimeType}".`);
+}
+
+// --- Insight Extraction ---
+// Keyword matching against a fixed vocabulary keeps extraction deterministic
+// and free; the vocabularies map onto the onboarding option ids.
+
+const SKILL_KEYWORDS: Record<string, string[]> = {
+  "Python": ["python"],
+  "JavaScript": ["javascript", "typescript", "node.js", "react"],
+  "Java": ["java"],
+  "SQL": ["sql", "postgres", "mysql"],
+  "Data Analysis": ["data analysis", "data analytics", "tableau", "power bi", "excel"],
+  "Machine Learning": ["machine learning", "deep learning", "tensorflow", "pytorch"],
+  "Cloud": ["aws", "azure", "gcp", "google cloud", "kubernetes"],
+  "Product Management": ["product management", "product manager", "roadmap"],
+  "Project Management": ["project management", "agile", "scrum", "pmp"],
+  "UX Design": ["ux", "user research", "figma", "wireframe"],
+  "Marketing": ["marketing", "seo", "campaign"],
+  "Sales": ["sales", "business development", "account management"],
+  "Financial Analysis": ["financial analysis", "financial modeling", "valuation", "accounting"],
+  "Research": ["research", "publication", "laboratory"],
+  "Teaching": ["teaching", "curriculum", "tutoring"],
+  "Leadership": ["led a team", "managed a team", "team lead", "leadership"],
+  "Public Speaking": ["public speaking", "presented at", "keynote"],
+  "Writing": ["writing", "copywriting", "editorial"],
+  "Legal": ["litigation", "contract law", "compliance", "legal research"],
+  "Clinical": ["clinical", "patient care", "nursing"],
+};
+
+const INDUSTRY_KEYWORDS: Record<string, string[]> = {
+  tech: ["software", "engineer", "developer", "saas", "startup", "technology"],
+  healthcare: ["hospital", "clinical", "healthcare", "patient", "medical"],
+  education: ["school", "university", "teacher", "education", "curriculum"],
+  law: ["law firm", "attorney", "lawyer", "paralegal", "legal"],
+  finance: ["bank", "investment", "finance", "financial", "accounting"],
+  nonprofit: ["nonprofit", "non-profit", "ngo", "foundation", "charity"],
+  media: ["media", "journalism", "publishing", "broadcast"],
+  retail: ["retail", "e-commerce", "merchandising", "store manager"],
+  manufacturing: ["manufacturing", "supply chain", "production", "factory"],
+  consulting: ["consulting", "consultant", "advisory"],
+  government: ["government", "public sector", "federal", "ministry"],
+};
+
+// Checked from most to least senior; the first match wins.
+const SENIORITY_TITLES: [string, RegExp][] = [
+  ["executive-level", /\b(chief [a-z]+ officer|ceo|cto|cfo|coo|vice president|vp|head of|director)\b/],
+  ["senior-career", /\b(senior|principal|staff|lead)\b/],
+  ["entry-level", /\b(intern|internship|junior|graduate trainee|associate)\b/],
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mentions(text: string, keyword: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}([^a-z0-9]|$)`).test(text);
+}
+
+function estimateYearsOfExperience(text: string): number | null {
+  const stated = [...text.matchAll(/(\d{1,2})\+?\s*(?:years|yrs)\b/g)].map((match) => Number(match[1]));
+  if (stated.length > 0) return Math.max(...stated);
+
+  // Otherwise use the span of four-digit years mentioned (e.g. "2015 – present").
+  const currentYear = new Date().getFullYear();
+  const years = [...text.matchAll(/\b(19[7-9]\d|20\d{2})\b/g)]
+    .map((match) => Number(match[1]))
+    .filter((year) => year <= currentYear);
+  if (/\bpresent\b|\bcurrent\b/.test(text)) years.push(currentYear);
+  return years.length >= 2 ? Math.max(...years) - Math.min(...years) : null;
+}
+
+function seniorityFromYears(years: number): string {
+  if (years < 2) return "entry-level";
+  if (years < 5) return "early-career";
+  if (years < 10) return "mid-career";
+  return "senior-career";
+}
+
+export function extractResumeInsights(text: string): ResumeInsights {
+  const normalized = text.toLowerCase();
+  const skills = Object.entries(SKILL_KEYWORDS)
+    .filter(([, keywords]) => keywords.some((keyword) => mentions(normalized, keyword)))
+    .map(([skill]) => skill);
+  const industries = Object.entries(INDUSTRY_KEYWORDS)
+    .filter(([, keywords]) => keywords.some((keyword) => mentions(normalized, keyword)))
+    .map(([industry]) => industry);
+
+  const yearsOfExperience = estimateYearsOfExperience(normalized);
+  const titleSeniority = SENIORITY_TITLES.find(([, pattern]) => pattern.test(normalized))?.[0] ?? null;
+  const seniority = titleSeniority === "executive-level"
+    ? titleSeniority
+    : yearsOfExperience !== null ? seniorityFromYears(yearsOfExperience) : titleSeniority;
+
+  return { skills, seniority, industries, yearsOfExperience };
+}
+
+export async function parseResume(buffer: Buffer, mimeType: string): Promise<ParsedResume | null> {
+  const rawText = await extractResumeText(buffer, mimeType);
+  const text = rawText?.replace(/\s+/g, " ").trim() ?? "";
+  if (text === "") return null;
+  return { text, insights: extractResumeInsights(text) };
+}
+
+export function resumeColumns(parsed: ParsedResume, parsedAt: string = new Date().toISOString()): ResumeColumns {
+  return {
+    resume_text: parsed.text.slice(0, MAX_STORED_RESUME_CHARS),
+    resume_skills: parsed.insights.skills,
+    resume_seniority: parsed.insights.seniority,
+    resume_industries: parsed.insights.industries,
+    resume_parsed_at: parsedAt,
+  };
+}
+
+/**
+ * Parse a resume and store the result on the user's profile row.
+ * Returns the stored columns, or null if no text could be extracted.
+ * This function must only be called from server-side code.
+ */
+export async function processResume(
+  supabase: SupabaseClient,
+  userId: string,
+  buffer: Buffer,
+  mimeType: string
+): Promise<ResumeColumns | null> {
+  ensureServer("processResume");
+  const parsed = await parseResume(buffer, mimeType);
+  if (!parsed) {
+    console.log(`[processResume] No text extracted from the resume of user "${userId}".`);
+    return null;
+  }
+
+  const columns = resumeColumns(parsed);
+  const { error } = await supabase
+    .from("user_onboarding_details")
+    .update(columns)
+    .eq("user_id", userId);
+  if (error) {
+    console.error(`[processResume] Error saving resume insights for user "${userId}":`, error);
+    throw new Error("Failed to save resume insights.");
+  }
+  console.log(`[processResume] Extracted ${parsed.insights.skills.length} skill(s) for user "${userId}".`);
+  return columns;
+}
+
+/**
+ * Re-run the pipeline for a resume that is already in the bucket, e.g. to
+ * backfill profiles created before resumes were parsed.
+ */
+export async function processStoredResume(
+  supabase: SupabaseClient,
+  userId: string,
+  resumePath: string
+): Promise<ResumeColumns | null> {
+  ensureServer("processStoredResume");
+  const { data, error } = await supabase.storage.from(RESUME_BUCKET).download(resumePath);
+  if (error || !data) {
+    console.error(`[processStoredResume] Error downloading "${resumePath}":`, error);
+    throw new Error("Failed to download resume.");
+  }
+  const extension = resumePath.split(".").pop()?.toLowerCase() ?? "";
+  const mimeType = data.type || MIME_TYPES_BY_EXTENSION[extension] || "application/octet-stream";
+  return processResume(supabase, userId, Buffer.from(await data.arrayBuffer()), mimeType);
+}
@@ -0,0 +1,188 @@
+// src/lib/scoring.ts
+// Hybrid match scoring: combines the embedding similarity of a mentee and a
+// mentor with the structured fields collected during onboarding.
+import { z } from "zod";
+
+import { UserOnboardingDetails } from "./profiles.ts";
+
+export interface MatchScoreWeights {
+  vector: number; // Cosine similarity of the profile embeddings
+  helpAreas: number; // Share of the mentee's help areas the mentor offers
+  careerStage: number; // Mentor's preferred mentee stages, or how far ahead of the mentee the mentor is
+  industries: number; // Share of the mentee's industries the mentor shares
+  location: number; // Same city, or at least the same country
+}
+
+export interface MatchScoringConfig {
+  weights: MatchScoreWeights;
+  requireSharedLanguage: boolean; // Hard constraint: pairs without a common language are excluded
+  // Preferred number of career-stage levels the mentor is ahead of the mentee (inclusive range).
+  careerStageGap: { min: number; max: number };
+}
+
+// Partial form accepted from per-program configuration; missing values fall back to the defaults.
+export interface MatchScoringConfigOverrides {
+  weights?: Partial<MatchScoreWeights>;
+  requireSharedLanguage?: boolean;
+  careerStageGap?: Partial<MatchScoringConfig["careerStageGap"]>;
+}
+
+const weightSchema = z.number().finite().nonnegative().optional();
+const stageGapSchema = z.number().int().nonnegative().optional();
+
+// Overrides as stored in the cohort's jsonb; unknown keys are rejected so every weight names a component.
+const matchScoringConfigOverridesSchema: z.ZodType<MatchScoringConfigOverrides> = z
+  .object({
+    weights: z
+      .object({
+        vector: weightSchema,
+        helpAreas: weightSchema,
+        careerStage: weightSchema,
+        industries: weightSchema,
+        location: weightSchema,
+      })
+      .strict()
+      .optional(),
+    requireSharedLanguage: z.boolean().optional(),
+    careerStageGap: z.object({ min: stageGapSchema, max: stageGapSchema }).strict().optional(),
+  })
+  .strict();
+
+export const DEFAULT_MATCH_SCORING_CONFIG: MatchScoringConfig = {
+  weights: {
+    vector: 0.5,
+    helpAreas: 0.25,
+    careerStage: 0.1,
+    industries: 0.1,
+    location: 0.05,
+  },
+  requireSharedLanguage: true,
+  careerStageGap: { min: 1, max: 3 },
+};
+
+export type ScoreComponent = keyof MatchScoreWeights;
+
+export interface MatchScoreBreakdown {
+  eligible: boolean;
+  ineligibleReason?: string;
+  components: Record<ScoreComponent, number>; // Each in [0, 1]
+  total: number; // Weighted average of the components, 0 when ineligible
+}
+
+// Ordered career-stage option ids from onboarding; ids not listed here
+// ("career-changer", "other") have no rank and score neutrally.
+const CAREER_STAGE_ORDER = [
+  "student-high-school",
+  "student-undergrad",
+  "student-grad",
+  "entry-level",
+  "early-career",
+  "mid-career",
+  "senior-career",
+  "executive-level",
+];
+
+const NEUTRAL_COMPONENT_SCORE = 0.5;
+
+/**
+ * Apply per-program overrides to the defaults. Overrides that are not valid
+ * (unknown keys, weights that are not non-negative numbers, a gap whose min
+ * exceeds its max) are logged and ignored, so scores never become NaN.
+ */
+export function resolveMatchScoringConfig(overrides?: unknown): MatchScoringConfig {
+  if (overrides == null) return DEFAULT_MATCH_SCORING_CONFIG;
+  const parsed = matchScoringConfigOverridesSchema.safeParse(overrides);
+  if (!parsed.success) {
+    console.warn("[resolveMatchScoringConfig] Ignoring invalid scoring overrides:", parsed.error.errors[0]?.message);
+    return DEFAULT_MATCH_SCORING_CONFIG;
+  }
+
+  const config: MatchScoringConfig = {
+    weights: { ...DEFAULT_MATCH_SCORING_CONFIG.weights, ...parsed.data.weights },
+    requireSharedLanguage: parsed.data.requireSharedLanguage ?? DEFAULT_MATCH_SCORING_CONFIG.requireSharedLanguage,
+    careerStageGap: { ...DEFAULT_MATCH_SCORING_CONFIG.careerStageGap, ...parsed.data.careerStageGap },
+  };
+  if (config.careerStageGap.min > config.careerStageGap.max) {
+    console.warn("[resolveMatchScoringConfig] Ignoring scoring overrides whose career stage gap min exceeds its max");
+    return DEFAULT_MATCH_SCORING_CONFIG;
+  }
+  return config;
+}
+
+function overlapRatio(wanted: string[] | null | undefined, offered: string[] | null | undefined): number {
+  if (!wanted?.length) return 0;
+  const offeredSet = new Set(offered ?? []);
+  return wanted.filter((id) => offeredSet.has(id)).length / wanted.length;
+}
+
+function sharesLanguage(mentee: UserOnboardingDetails, mentor: UserOnboardingDetails): boolean {
+  // Missing data is not treated as a conflict.
+  if (!mentee.languages?.length || !mentor.languages?.length) return true;
+  const mentorLanguages = new Set(mentor.languages.filter((id) => id !== "other"));
+  return mentee.languages.some((id) => mentorLanguages.has(id));
+}
+
+function careerStageScore(
+  mentee: UserOnboardingDetails,
+  mentor: UserOnboardingDetails,
+  gap: MatchScoringConfig["careerStageGap"]
+): number {
+  const menteeStage = mentee.career_stage;
+  if (menteeStage && mentor.preferred_mentee_stages?.includes(menteeStage)) return 1;
+
+  const menteeRank = menteeStage ? CAREER_STAGE_ORDER.indexOf(menteeStage) : -1;
+  const mentorRank = mentor.career_stage ? CAREER_STAGE_ORDER.indexOf(mentor.career_stage) : -1;
+  if (menteeRank < 0 || mentorRank < 0) return NEUTRAL_COMPONENT_SCORE;
+
+  const ahead = mentorRank - menteeRank;
+  if (ahead <= 0) return 0;
+  if (ahead < gap.min) return ahead / gap.min;
+  if (ahead <= gap.max) return 1;
+  // Further ahead than preferred still works, just less well.
+  return Math.max(0, 1 - (ahead - gap.max) / CAREER_STAGE_ORDER.length);
+}
+
+function parseLocation(location: string | undefined): { city: string; country: string } | null {
+  const parts = (location ?? "").split(",").map((part) => part.trim().toLowerCase()).filter(Boolean);
+  if (parts.length === 0) return null;
+  return { city: parts[0], country: parts[parts.length - 1] };
+}
+
+function locationScore(menteeLocation: string | undefined, mentorLocation: string | undefined): number {
+  const mentee = parseLocation(menteeLocation);
+  const mentor = parseLocation(mentorLocation);
+  if (!mentee || !mentor) return NEUTRAL_COMPONENT_SCORE;
+  if (mentee.city === mentor.city && mentee.country === mentor.country) return 1;
+  return mentee.country === mentor.country ? 0.5 : 0;
+}
+
+/**
+ * Score a mentee–mentor pair. `vectorScore` is the cosine similarity returned
+ * by the vector search; negative similarities count as 0.
+ */
+export function scoreMatch(
+  mentee: UserOnboardingDetails,
+  mentor: UserOnboardingDetails,
+  vectorScore: number,
+  config: MatchScoringConfig = DEFAULT_MATCH_SCORING_CONFIG
+): MatchScoreBreakdown {
+  const components: Record<ScoreComponent, number> = {
+    vector: Math.min(1, Math.max(0, vectorScore)),
+    helpAreas: overlapRatio(mentee.help_areas_seeking, mentor.help_areas_offering),
+    careerStage: careerStageScore(mentee, mentor, config.careerStageGap),
+    industries: overlapRatio(mentee.industries, mentor.industries),
+    location: locationScore(mentee.location, mentor.location),
+  };
+
+  if (config.requireSharedLanguage && !sharesLanguage(mentee, mentor)) {
+    return { eligible: false, ineligibleReason: "No shared language", components, total: 0 };
+  }
+
+  const entries = (Object.keys(components) as ScoreComponent[]).map((component) => [component, config.weights[component]] as const);
+  const weightSum = entries.reduce((sum, [, weight]) => sum + Math.max(0, weight), 0);
+  const total = weightSum > 0
+    ? entries.reduce((sum, [component, weight]) => sum + Math.max(0, weight) * components[component], 0) / weightSum
+    : components.vector;
+
+  return { eligible: true, components, total };
+}
@@ -1,5 +1,6 @@
 // src/lib/supabaseClient.ts
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createBrowserClient } from '@supabase/ssr';
 
 // For client-side Supabase client (safe with anon key)
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -14,9 +15,11 @@ if (!supabaseAnonKey) {
 
 // This is your primary client-side safe Supabase client
 // It uses the public anonymous key and respects Row Level Security (RLS)
-export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+// Created with @supabase/ssr so the session is kept in cookies, which lets
+// API routes and getServerSideProps authenticate the same user (see supabaseServer.ts).
+export const supabase: SupabaseClient = createBrowserClient(supabaseUrl, supabaseAnonKey, {
   auth: {
-    persistSession: true, // Store session in localStorage
+    persistSession: true, // Store session in cookies
     autoRefreshToken: true, // Automatically refresh session tokens
     detectSessionInUrl: true, // Useful for OAuth redirects
     // storageKey: 'my-app-auth-token', // Optional: custom storage key
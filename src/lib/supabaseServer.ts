@@ -0,0 +1,53 @@
+// src/lib/supabaseServer.ts
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createServerClient, serializeCookieHeader } from '@supabase/ssr';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+
+import { ensureServer } from './env.ts';
+
+// Both NextApiRequest and the getServerSideProps request carry parsed cookies.
+type RequestWithCookies = IncomingMessage & { cookies: Partial<Record<string, string>> };
+
+// Adds cookies without overwriting ones already set on the response (e.g. refreshed session tokens).
+export function appendSetCookieHeaders(res: ServerResponse, cookies: string[]) {
+  const existing = res.getHeader('Set-Cookie');
+  const previous = existing === undefined ? [] : Array.isArray(existing) ? existing : [String(existing)];
+  res.setHeader('Set-Cookie', [...previous, ...cookies]);
+}
+
+/**
+ * Create a Supabase client for API routes and getServerSideProps.
+ * It reads the user's session from the request cookies (written by the browser
+ * client in supabaseClient.ts) and writes refreshed tokens back on the response,
+ * so queries run as the authenticated user and respect Row Level Security.
+ */
+export function createSupabaseServerClient(req: RequestWithCookies, res: ServerResponse): SupabaseClient {
+  ensureServer('createSupabaseServerClient');
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase URL or Anon Key not found. Did you set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY?');
+  }
+
+  return createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return Object.entries(req.cookies).map(([name, value]) => ({ name, value: value ?? '' }));
+      },
+      setAll(cookiesToSet) {
+        appendSetCookieHeaders(
+          res,
+          cookiesToSet.map(({ name, value, options }) => serializeCookieHeader(name, value, options))
+        );
+      },
+    },
+  });
+}
+
+/**
+ * Program coordinators run matching rounds and manage cohorts.
+ * The role lives in app_metadata, which only the service role can modify.
+ */
+export function isCoordinator(user: User | null | undefined): boolean {
+  return user?.app_metadata?.role === 'coordinator';
+}
@@ -0,0 +1,118 @@
+// src/lib/timeZones.ts
+// Wall-clock arithmetic in IANA time zones other than the runtime's, using Intl.
+// Calendar dates are 'yyyy-MM-dd' strings and times of day are minutes since midnight.
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zonedFields(instant: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const fields = { year: 0, month: 0, day: 0, hour: 0, minute: 0, second: 0 };
+  for (const part of partsFormatter(timeZone).formatToParts(instant)) {
+    if (part.type in fields) fields[part.type as keyof typeof fields] = Number(part.value);
+  }
+  return fields;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    partsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The runtime's own zone: the browser's on the client, the server's on the server.
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Zone to show times in: the user's saved zone if valid, otherwise the
+ * runtime's. Users who have not picked a zone yet see their browser's.
+ */
+export function resolveTimeZone(preferred?: string | null): string {
+  return preferred && isValidTimeZone(preferred) ? preferred : localTimeZone();
+}
+
+// Zone names offered in time zone pickers, with `current` first if the runtime does not list it.
+export function timeZoneOptions(current?: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return current && !zones.includes(current) ? [current, ...zones] : zones;
+}
+
+// Minutes the zone is ahead of UTC at `instant`, e.g. -240 for New York in summer.
+export function timeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const fields = zonedFields(instant, timeZone);
+  const wallClockAsUtc = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClockAsUtc - wholeSeconds) / 60000);
+}
+
+// Calendar date of `instant` as seen in `timeZone`.
+export function zonedDateString(instant: Date, timeZone: string): string {
+  const { year, month, day } = zonedFields(instant, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Minutes past midnight on the clock in `timeZone` at `instant`.
+export function zonedMinutesOfDay(instant: Date, timeZone: string): number {
+  const { hour, minute } = zonedFields(instant, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * The instant at which clocks in `timeZone` read `minutes` past midnight on
+ * `date`. Minutes may run past the end of the day. Repeated times when clocks
+ * go back resolve to the first occurrence; times skipped when clocks go
+ * forward resolve to an instant an hour away, so callers that need an exact
+ * duration should check it.
+ */
+export function zonedTimeToInstant(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+  // The offset at the guess is right unless a DST change lies between the guess and the answer.
+  const guess = wallClockAsUtc - timeZoneOffsetMinutes(new Date(wallClockAsUtc), timeZone) * 60000;
+  return new Date(wallClockAsUtc - timeZoneOffsetMinutes(new Date(guess), timeZone) * 60000);
+}
+
+export function addDaysToDateString(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Same day of the month `months` later, or the month's last day if it is shorter, e.g. Jan 31 -> Feb 28.
+export function addMonthsToDateString(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
+
+export function daysBetweenDateStrings(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / 86400000);
+}
+
+// 0 = Sunday, matching Date.getDay and date-fns getDay.
+export function weekdayOfDateString(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
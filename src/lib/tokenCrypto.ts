@@ -0,0 +1,59 @@
+// src/lib/tokenCrypto.ts
+// Encryption for third-party credentials stored in the database (e.g. Google
+// refresh tokens). AES-256-GCM with a key from TOKEN_ENCRYPTION_KEY.
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+import { ensureServer } from './env.ts';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+// Stored values look like "v1:<iv>:<auth tag>:<ciphertext>", each part base64.
+const FORMAT_VERSION = 'v1';
+
+let _key: Buffer | null = null;
+
+function getEncryptionKey(): Buffer {
+  if (!_key) {
+    const raw = process.env.TOKEN_ENCRYPTION_KEY;
+    if (!raw) {
+      throw new Error('TOKEN_ENCRYPTION_KEY environment variable is not set');
+    }
+    const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new Error('TOKEN_ENCRYPTION_KEY must be 32 bytes, hex or base64 encoded (e.g. `openssl rand -base64 32`)');
+    }
+    _key = key;
+  }
+  return _key;
+}
+
+/**
+ * Encrypt a secret for storage.
+ * This function must only be called from server-side code.
+ */
+export function encryptSecret(plaintext: string): string {
+  ensureServer('encryptSecret');
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret. Throws if it was tampered with
+ * or encrypted with a different key.
+ * This function must only be called from server-side code.
+ */
+export function decryptSecret(stored: string): string {
+  ensureServer('decryptSecret');
+  const [version, iv, authTag, ciphertext] = stored.split(':');
+  if (version !== FORMAT_VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
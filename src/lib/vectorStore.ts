@@ -0,0 +1,330 @@
+import {
+  Pinecone,
+  Index,
+  IndexModel,
+  PineconeRecord as SDKPineconeRecord,
+} from "@pinecone-database/pinecone";
+
+import { ensureServer } from "./env.ts";
+import type {
+  BasePineconeMetadata,
+  PineconeFilterValue,
+  PineconeMatch,
+  PineconeMetadataValue,
+  PineconeQueryFilter,
+} from "./pinecone.ts";
+
+/**
+ * Vector store abstraction used by the matching pipeline.
+ *
+ * `pinecone` talks to the hosted Pinecone index; `memory` keeps records in
+ * process so the whole matching flow can run offline (local dev, tests).
+ * The backend is chosen with the VECTOR_STORE_BACKEND environment variable.
+ */
+export type VectorStoreBackend = "pinecone" | "memory";
+
+export type VectorRecord<TMetadata extends BasePineconeMetadata = BasePineconeMetadata> =
+  SDKPineconeRecord<TMetadata>;
+
+export interface VectorQueryOptions {
+  vector: number[];
+  topK: number;
+  filter?: PineconeQueryFilter;
+  includeMetadata?: boolean;
+  includeValues?: boolean;
+  namespace?: string;
+}
+
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+  readonly indexName: string;
+  /** Create the index with the given dimension if it does not exist yet; throws if it exists with another dimension. */
+  ensureIndex(dimension: number): Promise<void>;
+  upsert<TMetadata extends BasePineconeMetadata>(records: VectorRecord<TMetadata>[], namespace?: string): Promise<void>;
+  query<TMetadata extends BasePineconeMetadata>(options: VectorQueryOptions): Promise<PineconeMatch<TMetadata>[]>;
+  fetch<TMetadata extends BasePineconeMetadata>(ids: string[], namespace?: string): Promise<Record<string, VectorRecord<TMetadata>>>;
+  deleteMany(ids: string[], namespace?: string): Promise<void>;
+  /** Delete every record in the namespace (the default namespace if omitted). */
+  deleteAll(namespace?: string): Promise<void>;
+  /** List record IDs, optionally restricted to those starting with a prefix. */
+  listIds(prefix?: string, namespace?: string): Promise<string[]>;
+}
+
+const DEFAULT_NAMESPACE = "";
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error("Vectors must have the same length for cosine similarity.");
+  }
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dotProduct / denominator;
+}
+
+// --- Metadata Filter Evaluation (in-memory backend) ---
+// Mirrors the subset of Pinecone's filter language the app relies on:
+// implicit equality, $eq, $ne, $in, $gt and $lt. For list-valued metadata,
+// $eq/$in match when any element matches, as they do in Pinecone.
+
+function isOperatorObject(value: PineconeFilterValue): value is Record<string, PineconeMetadataValue | PineconeMetadataValue[]> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function valueEquals(value: PineconeMetadataValue | undefined, operand: unknown): boolean {
+  if (value === undefined) return false;
+  if (Array.isArray(value)) return value.some((item) => item === operand);
+  return value === operand;
+}
+
+function evaluateOperator(operator: string, value: PineconeMetadataValue | undefined, operand: unknown): boolean {
+  switch (operator) {
+    case "$eq":
+      return valueEquals(value, operand);
+    case "$ne":
+      return !valueEquals(value, operand);
+    case "$in":
+      if (!Array.isArray(operand)) {
+        throw new Error(`Filter operator "$in" expects an array operand.`);
+      }
+      return operand.some((candidate) => valueEquals(value, candidate));
+    case "$gt":
+      return typeof value === "number" && typeof operand === "number" && value > operand;
+    case "$lt":
+      return typeof value === "number" && typeof operand === "number" && value < operand;
+    default:
+      throw new Error(`Unsupported filter operator "${operator}" in the in-memory vector store.`);
+  }
+}
+
+export function matchesFilter(metadata: BasePineconeMetadata | undefined, filter?: PineconeQueryFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = metadata?.[field];
+    if (isOperatorObject(condition)) {
+      return Object.entries(condition).every(([operator, operand]) => evaluateOperator(operator, value, operand));
+    }
+    return evaluateOperator("$eq", value, condition);
+  });
+}
+
+// --- In-Memory Backend ---
+// Records are kept per index name and namespace at module level, so every
+// store instance for the same index sees the same data for the life of the process.
+const _memoryIndexes = new Map<string, { dimension?: number; namespaces: Map<string, Map<string, VectorRecord>> }>();
+
+class InMemoryVectorStore implements VectorStore {
+  readonly backend = "memory" as const;
+
+  constructor(readonly indexName: string) {}
+
+  private get state() {
+    let state = _memoryIndexes.get(this.indexName);
+    if (!state) {
+      state = { namespaces: new Map() };
+      _memoryIndexes.set(this.indexName, state);
+    }
+    return state;
+  }
+
+  private namespace(namespace: string = DEFAULT_NAMESPACE): Map<string, VectorRecord> {
+    let records = this.state.namespaces.get(namespace);
+    if (!records) {
+      records = new Map();
+      this.state.namespaces.set(namespace, records);
+    }
+    return records;
+  }
+
+  async ensureIndex(dimension: number): Promise<void> {
+    if (this.state.dimension === undefined) {
+      this.state.dimension = dimension;
+    } else if (this.state.dimension !== dimension) {
+      throw new Error(`Index "${this.indexName}" has dimension ${this.state.dimension}, but ${dimension} was requested.`);
+    }
+  }
+
+  async upsert<TMetadata extends BasePineconeMetadata>(records: VectorRecord<TMetadata>[], namespace?: string): Promise<void> {
+    const target = this.namespace(namespace);
+    for (const record of records) {
+      const { dimension } = this.state;
+      if (!record.values) {
+        throw new Error(`Record "${record.id}" has no dense values; the in-memory store only supports dense vectors.`);
+      }
+      if (dimension !== undefined && record.values.length !== dimension) {
+        throw new Error(`Vector dimension ${record.values.length} does not match index "${this.indexName}" dimension ${dimension}.`);
+      }
+      target.set(record.id, {
+        ...record,
+        values: [...record.values],
+        metadata: record.metadata ? { ...record.metadata } : undefined,
+      });
+    }
+  }
+
+  async query<TMetadata extends BasePineconeMetadata>(options: VectorQueryOptions): Promise<PineconeMatch<TMetadata>[]> {
+    const matches: PineconeMatch<TMetadata>[] = [];
+    for (const record of this.namespace(options.namespace).values()) {
+      if (!record.values || !matchesFilter(record.metadata, options.filter)) continue;
+      matches.push({
+        id: record.id,
+        score: cosineSimilarity(options.vector, record.values),
+        values: options.includeValues ? [...record.values] : [],
+        metadata: options.includeMetadata ? (record.metadata as TMetadata | undefined) : undefined,
+      });
+    }
+    return matches
+      .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+      .slice(0, options.topK);
+  }
+
+  async fetch<TMetadata extends BasePineconeMetadata>(ids: string[], namespace?: string): Promise<Record<string, VectorRecord<TMetadata>>> {
+    const source = this.namespace(namespace);
+    const records: Record<string, VectorRecord<TMetadata>> = {};
+    for (const id of ids) {
+      const record = source.get(id);
+      if (record) records[id] = record as VectorRecord<TMetadata>;
+    }
+    return records;
+  }
+
+  async deleteMany(ids: string[], namespace?: string): Promise<void> {
+    const target = this.namespace(namespace);
+    for (const id of ids) target.delete(id);
+  }
+
+  async deleteAll(namespace?: string): Promise<void> {
+    this.namespace(namespace).clear();
+  }
+
+  async listIds(prefix: string = "", namespace?: string): Promise<string[]> {
+    return [...this.namespace(namespace).keys()].filter((id) => id.startsWith(prefix));
+  }
+}
+
+// --- Pinecone Backend ---
+let _pineconeClient: Pinecone | null = null;
+
+function getPineconeClient(): Pinecone {
+  ensureServer("getPineconeClient");
+  if (!_pineconeClient) {
+    if (!process.env.PINECONE_API_KEY) {
+      console.error("[getPineconeClient] PINECONE_API_KEY is not set.");
+      throw new Error("PINECONE_API_KEY environment variable is not set");
+    }
+    _pineconeClient = new Pinecone({
+      apiKey: process.env.PINECONE_API_KEY,
+    });
+    console.log("[getPineconeClient] Pinecone client initialized.");
+  }
+  return _pineconeClient;
+}
+
+class PineconeVectorStore implements VectorStore {
+  readonly backend = "pinecone" as const;
+
+  constructor(readonly indexName: string) {}
+
+  private index<TMetadata extends BasePineconeMetadata>(namespace?: string): Index<TMetadata> {
+    const index = getPineconeClient().Index<TMetadata>(this.indexName);
+    return namespace ? index.namespace(namespace) : index;
+  }
+
+  async ensureIndex(dimension: number): Promise<void> {
+    const client = getPineconeClient();
+    const { indexes } = await client.listIndexes();
+    const existing = indexes?.find((index: IndexModel) => index.name === this.indexName);
+    if (existing) {
+      // Switching embedding providers changes the dimension; Pinecone cannot resize an index.
+      if (existing.dimension !== undefined && existing.dimension !== dimension) {
+        throw new Error(`Index "${this.indexName}" has dimension ${existing.dimension}, but the active embedding provider produces ${dimension}.`);
+      }
+      return;
+    }
+
+    await client.createIndex({
+      name: this.indexName,
+      dimension,
+      metric: 'cosine',
+      spec: {
+        serverless: { cloud: 'aws', region: 'us-east-1' }
+      }
+    });
+  }
+
+  async upsert<TMetadata extends BasePineconeMetadata>(records: VectorRecord<TMetadata>[], namespace?: string): Promise<void> {
+    await this.index<TMetadata>(namespace).upsert(records);
+  }
+
+  async query<TMetadata extends BasePineconeMetadata>(options: VectorQueryOptions): Promise<PineconeMatch<TMetadata>[]> {
+    const { namespace, ...queryOptions } = options;
+    // The 'as any' cast is kept here because our PineconeQueryFilter is richer than the
+    // SDK's static 'Filter<T>' type, which may resolve to a simpler structure like Partial<TMetadata>.
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const results = await this.index<TMetadata>(namespace).query(queryOptions as any);
+    return (results.matches as PineconeMatch<TMetadata>[]) || [];
+  }
+
+  async fetch<TMetadata extends BasePineconeMetadata>(ids: string[], namespace?: string): Promise<Record<string, VectorRecord<TMetadata>>> {
+    const result = await this.index<TMetadata>(namespace).fetch(ids);
+    return (result.records as Record<string, VectorRecord<TMetadata>>) || {};
+  }
+
+  async deleteMany(ids: string[], namespace?: string): Promise<void> {
+    if (ids.length === 0) return;
+    await this.index(namespace).deleteMany(ids);
+  }
+
+  async deleteAll(namespace?: string): Promise<void> {
+    await this.index(namespace).deleteAll();
+  }
+
+  // listPaginated is only supported on serverless indexes, which is what ensureIndex creates.
+  async listIds(prefix?: string, namespace?: string): Promise<string[]> {
+    const index = this.index(namespace);
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+    do {
+      const page = await index.listPaginated({ prefix, paginationToken });
+      for (const vector of page.vectors ?? []) {
+        if (vector.id) ids.push(vector.id);
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+    return ids;
+  }
+}
+
+// --- Backend Selection ---
+const _stores = new Map<string, VectorStore>();
+
+export function getVectorStoreBackend(): VectorStoreBackend {
+  const configured = (process.env.VECTOR_STORE_BACKEND || "pinecone").trim().toLowerCase();
+  if (configured !== "pinecone" && configured !== "memory") {
+    throw new Error(`Unknown VECTOR_STORE_BACKEND "${configured}". Expected "pinecone" or "memory".`);
+  }
+  return configured;
+}
+
+/**
+ * Get the vector store for an index using the configured backend.
+ * This function must only be called from server-side code.
+ */
+export function getVectorStore(indexName: string): VectorStore {
+  ensureServer("getVectorStore");
+  const backend = getVectorStoreBackend();
+  const key = `${backend}:${indexName}`;
+  let store = _stores.get(key);
+  if (!store) {
+    store = backend === "memory" ? new InMemoryVectorStore(indexName) : new PineconeVectorStore(indexName);
+    _stores.set(key, store);
+    console.log(`[getVectorStore] Using ${backend} vector store for index "${indexName}".`);
+  }
+  return store;
+}
@@ -0,0 +1,42 @@
+// src/middleware.ts
+// Keeps signed-out visitors off pages that need an account and refreshes the
+// Supabase session cookies on every request to them. Onboarding status is
+// checked by withDashboardAuth (lib/dashboardAuth.ts) in getServerSideProps.
+import { NextResponse, type NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+
+import { loginPath } from '@/lib/authRedirect';
+
+export async function middleware(request: NextRequest) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase URL or Anon Key not found. Did you set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY?');
+  }
+
+  let response = NextResponse.next({ request });
+  const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll();
+      },
+      setAll(cookiesToSet) {
+        // Refreshed tokens must reach both the page being rendered and the browser.
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+        response = NextResponse.next({ request });
+        cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+      },
+    },
+  });
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    const { pathname, search } = request.nextUrl;
+    return NextResponse.redirect(new URL(loginPath(`${pathname}${search}`), request.url));
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/onboarding'],
+};
@@ -0,0 +1,68 @@
+// src/pages/api/auth/callback.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { EmailOtpType } from '@supabase/supabase-js';
+import { z } from 'zod';
+
+import type { AuthLinkErrorCode } from '@/lib/authMessages';
+import { resolvePostAuthPath, safeRedirectPath } from '@/lib/authRedirect';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+const EMAIL_OTP_TYPES = ['signup', 'invite', 'magiclink', 'recovery', 'email_change', 'email'] as const satisfies readonly EmailOtpType[];
+
+// Supabase links arrive either with a PKCE `code` or, from custom email
+// templates, with a `token_hash` and `type`. Failed links carry `error_code`
+// and `error_description`, which is logged but never shown.
+const querySchema = z.object({
+  code: z.string().min(1).optional(),
+  token_hash: z.string().min(1).optional(),
+  type: z.enum(EMAIL_OTP_TYPES).optional(),
+  next: z.string().optional(),
+  error_code: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+function redirectToLogin(res: NextApiResponse, code: AuthLinkErrorCode) {
+  res.redirect(303, `/auth/login?error=${code}`);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return redirectToLogin(res, 'invalid_link');
+  }
+  const { code, token_hash, type, next, error_code, error_description } = parsed.data;
+  if (error_code || error_description) {
+    console.warn(`[auth/callback] Link failed with ${error_code ?? 'no code'}: ${error_description ?? ''}`);
+    return redirectToLogin(res, error_code === 'otp_expired' ? 'expired_link' : 'invalid_link');
+  }
+
+  try {
+    // The session cookies are written on this response, so the redirect lands signed in.
+    const supabase = createSupabaseServerClient(req, res);
+    let result;
+    if (code) {
+      result = await supabase.auth.exchangeCodeForSession(code);
+    } else if (token_hash && type) {
+      result = await supabase.auth.verifyOtp({ token_hash, type });
+    } else {
+      return redirectToLogin(res, 'invalid_link');
+    }
+
+    const { data: { user }, error } = result;
+    if (error || !user) {
+      console.error('[auth/callback] Error verifying link:', error);
+      return redirectToLogin(res, 'expired_link');
+    }
+
+    const destination = safeRedirectPath(next) ?? await resolvePostAuthPath(supabase, user.id);
+    res.redirect(303, destination);
+  } catch (error: unknown) {
+    console.error('API Error in /api/auth/callback:', error);
+    redirectToLogin(res, 'sign_in_failed');
+  }
+}
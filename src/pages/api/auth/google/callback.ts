@@ -0,0 +1,72 @@
+// src/pages/api/auth/google/callback.ts
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { serializeCookieHeader } from '@supabase/ssr';
+import { z } from 'zod';
+
+import { loginPath, siteOrigin } from '@/lib/authRedirect';
+import {
+  createGoogleOAuthClient,
+  GOOGLE_CALENDAR_CALLBACK_PATH,
+  GOOGLE_OAUTH_STATE_COOKIE,
+  saveCalendarConnection,
+} from '@/lib/googleCalendar';
+import { getSupabaseAdminClient } from '@/lib/supabaseClient';
+import { appendSetCookieHeaders, createSupabaseServerClient } from '@/lib/supabaseServer';
+
+const MEETINGS_PATH = '/dashboard/meetings';
+
+const querySchema = z.object({
+  code: z.string().min(1).optional(),
+  state: z.string().min(1).optional(),
+  error: z.string().optional(), // e.g. "access_denied" when the user cancels
+});
+
+function stateMatches(expected: string | undefined, received: string | undefined): boolean {
+  if (!expected || !received) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function redirectToMeetings(res: NextApiResponse, result: 'connected' | 'denied' | 'error') {
+  res.redirect(303, `${MEETINGS_PATH}?calendar=${result}`);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const expectedState = req.cookies[GOOGLE_OAUTH_STATE_COOKIE];
+  // The state is single-use.
+  appendSetCookieHeaders(res, [
+    serializeCookieHeader(GOOGLE_OAUTH_STATE_COOKIE, '', { path: GOOGLE_CALENDAR_CALLBACK_PATH, maxAge: 0 }),
+  ]);
+
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success || !stateMatches(expectedState, parsed.data.state)) {
+    console.warn('[auth/google/callback] Missing or mismatched OAuth state');
+    return redirectToMeetings(res, 'error');
+  }
+  const { code, error } = parsed.data;
+  if (error || !code) {
+    return redirectToMeetings(res, error === 'access_denied' ? 'denied' : 'error');
+  }
+
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    return res.redirect(303, loginPath(MEETINGS_PATH));
+  }
+
+  try {
+    const client = createGoogleOAuthClient(`${siteOrigin()}${GOOGLE_CALENDAR_CALLBACK_PATH}`);
+    await saveCalendarConnection(getSupabaseAdminClient(), client, user.id, code);
+    redirectToMeetings(res, 'connected');
+  } catch (error: unknown) {
+    console.error('API Error in /api/auth/google/callback:', error);
+    redirectToMeetings(res, 'error');
+  }
+}
@@ -0,0 +1,72 @@
+// src/pages/api/auth/google/index.ts
+import { randomBytes } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { serializeCookieHeader } from '@supabase/ssr';
+
+import { loginPath, siteOrigin } from '@/lib/authRedirect';
+import {
+  buildCalendarConsentUrl,
+  createGoogleOAuthClient,
+  disconnectCalendar,
+  GOOGLE_CALENDAR_CALLBACK_PATH,
+  GOOGLE_OAUTH_STATE_COOKIE,
+} from '@/lib/googleCalendar';
+import { getSupabaseAdminClient } from '@/lib/supabaseClient';
+import { appendSetCookieHeaders, createSupabaseServerClient } from '@/lib/supabaseServer';
+
+const STATE_COOKIE_MAX_AGE_SECONDS = 10 * 60;
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+};
+
+/**
+ * GET starts Calendar consent (the meetings page navigates here directly);
+ * DELETE disconnects the user's calendar.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    res.setHeader('Allow', ['GET', 'DELETE']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    if (req.method === 'GET') return res.redirect(303, loginPath('/dashboard/meetings'));
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+
+  try {
+    if (req.method === 'DELETE') {
+      await disconnectCalendar(getSupabaseAdminClient(), user.id);
+      return res.status(200).json({ success: true, message: 'Google Calendar disconnected.' });
+    }
+
+    // The callback only accepts a response carrying this value, which ties it to this browser.
+    const state = randomBytes(16).toString('base64url');
+    appendSetCookieHeaders(res, [
+      serializeCookieHeader(GOOGLE_OAUTH_STATE_COOKIE, state, {
+        path: GOOGLE_CALENDAR_CALLBACK_PATH,
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        maxAge: STATE_COOKIE_MAX_AGE_SECONDS,
+      }),
+    ]);
+
+    const client = createGoogleOAuthClient(`${siteOrigin()}${GOOGLE_CALENDAR_CALLBACK_PATH}`);
+    res.redirect(302, buildCalendarConsentUrl(client, state, user.email));
+  } catch (error: unknown) {
+    console.error('API Error in /api/auth/google:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to update the Google Calendar connection.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
@@ -0,0 +1,67 @@
+// src/pages/api/availability/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import {
+  getMentorAvailability,
+  MentorAvailability,
+  mentorAvailabilitySchema,
+  saveMentorAvailability,
+} from '@/lib/availability';
+import { UserOnboardingDetails } from '@/lib/profiles';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: {
+    availability: MentorAvailability | null; // Null until the mentor first saves their hours
+  };
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    res.setHeader('Allow', ['GET', 'PUT']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  // Mentors manage their own availability, so Row Level Security applies.
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+
+  try {
+    const { data: profile, error: profileError } = await supabaseServerClient
+      .from('user_onboarding_details')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle<Pick<UserOnboardingDetails, 'role'>>();
+    if (profileError) throw profileError;
+    if (profile?.role !== 'mentor') {
+      return res.status(403).json({ success: false, error: 'Only mentors can set availability.' });
+    }
+
+    if (req.method === 'GET') {
+      const availability = await getMentorAvailability(supabaseServerClient, user.id);
+      return res.status(200).json({ success: true, data: { availability } });
+    }
+
+    const parsed = mentorAvailabilitySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request.' });
+    }
+    const availability = await saveMentorAvailability(supabaseServerClient, user.id, parsed.data);
+    res.status(200).json({ success: true, message: 'Availability saved.', data: { availability } });
+  } catch (error: unknown) {
+    console.error('API Error in /api/availability:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to process the availability request.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
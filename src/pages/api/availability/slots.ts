@@ -0,0 +1,122 @@
+// src/pages/api/availability/slots.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+
+import {
+  BookableSlot,
+  computeBookableSlots,
+  DEFAULT_MEETING_MINUTES,
+  getMentorAvailability,
+  MAX_SLOT_RANGE_DAYS,
+} from '@/lib/availability';
+import { findUserAssignment } from '@/lib/cohorts';
+import { getMeeting, listBusyIntervals } from '@/lib/meetings';
+import { UserOnboardingDetails } from '@/lib/profiles';
+import { getSupabaseAdminClient } from '@/lib/supabaseClient';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+const querySchema = z.object({
+  from: z.string().datetime({ offset: true, message: 'from must be an ISO 8601 date-time.' }),
+  to: z.string().datetime({ offset: true, message: 'to must be an ISO 8601 date-time.' }),
+  duration: z.coerce.number().int().min(15).max(480).default(DEFAULT_MEETING_MINUTES),
+  partnerId: z.string().uuid({ message: 'partnerId must be a user id.' }).optional(),
+  // Rescheduling a meeting frees up its current time
+  excludeMeetingId: z.string().uuid({ message: 'excludeMeetingId must be a meeting id.' }).optional(),
+});
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: {
+    slots: BookableSlot[];
+    timeZone: string | null; // The mentor's time zone
+    availabilityConfigured: boolean; // False until the mentor sets their hours
+  };
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request.' });
+  }
+  const { from, to, duration, partnerId, excludeMeetingId } = parsed.data;
+  const rangeDays = (Date.parse(to) - Date.parse(from)) / 86400000;
+  if (rangeDays <= 0 || rangeDays > MAX_SLOT_RANGE_DAYS) {
+    return res.status(400).json({ success: false, error: `to must be after from and at most ${MAX_SLOT_RANGE_DAYS} days later.` });
+  }
+
+  try {
+    // Other users' availability and meetings are read with the service role.
+    const supabaseAdmin = getSupabaseAdminClient();
+
+    // Slots are the mentor's hours minus both participants' meetings. Mentors
+    // looking without a partner see their own open hours.
+    let mentorId: string;
+    let participantIds: string[];
+    const assignment = await findUserAssignment(supabaseAdmin, user.id, partnerId);
+    if (assignment?.mentor_id) {
+      mentorId = assignment.mentor_id;
+      participantIds = [assignment.mentee_id, assignment.mentor_id];
+    } else {
+      const { data: profile, error: profileError } = await supabaseServerClient
+        .from('user_onboarding_details')
+        .select('role')
+        .eq('user_id', user.id)
+        .maybeSingle<Pick<UserOnboardingDetails, 'role'>>();
+      if (profileError) throw profileError;
+      if (partnerId || profile?.role !== 'mentor') {
+        return res.status(404).json({ success: false, error: 'No match found yet.' });
+      }
+      mentorId = user.id;
+      participantIds = [user.id];
+    }
+
+    // Only a meeting the user takes part in can be left out; RLS hides the rest.
+    if (excludeMeetingId && !(await getMeeting(supabaseServerClient, excludeMeetingId))) {
+      return res.status(404).json({ success: false, error: 'Meeting not found.' });
+    }
+
+    const availability = await getMentorAvailability(supabaseAdmin, mentorId);
+    if (!availability) {
+      return res.status(200).json({ success: true, data: { slots: [], timeZone: null, availabilityConfigured: false } });
+    }
+
+    // Meetings just outside the range still block slots within their buffer.
+    const bufferMs = availability.bufferMinutes * 60000;
+    const busy = await listBusyIntervals(
+      supabaseAdmin,
+      participantIds,
+      new Date(Date.parse(from) - bufferMs).toISOString(),
+      new Date(Date.parse(to) + bufferMs).toISOString(),
+      excludeMeetingId ? [excludeMeetingId] : []
+    );
+    const slots = computeBookableSlots(availability, {
+      from: new Date(from),
+      to: new Date(to),
+      durationMinutes: duration,
+      busy,
+    });
+    res.status(200).json({ success: true, data: { slots, timeZone: availability.timeZone, availabilityConfigured: true } });
+  } catch (error: unknown) {
+    console.error('API Error in /api/availability/slots:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to load available times.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
@@ -0,0 +1,101 @@
+// src/pages/api/matching/explanation.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+
+import { findUserAssignment } from '@/lib/cohorts';
+import { explainMatch, MatchExplanationSource } from '@/lib/matchExplainer';
+import { formatOptionIds, UserOnboardingDetails } from '@/lib/profiles';
+import { getSupabaseAdminClient } from '@/lib/supabaseClient';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+const querySchema = z.object({
+  partnerId: z.string().uuid({ message: 'partnerId must be a user id.' }).optional(),
+});
+
+export type MatchExplanationResponseData = {
+  partner: {
+    id: string;
+    name: string;
+    careerStage: string | null;
+    skills: string[];
+  };
+  matchPercentage: number;
+  alignmentSummary: string;
+  source: MatchExplanationSource;
+};
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: MatchExplanationResponseData;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request.' });
+  }
+
+  try {
+    // The partner's profile is not readable by the user under RLS; access is
+    // limited to pairs the user actually belongs to via their assignment.
+    const supabaseAdmin = getSupabaseAdminClient();
+    const assignment = await findUserAssignment(supabaseAdmin, user.id, parsed.data.partnerId);
+    if (!assignment || !assignment.mentor_id) {
+      return res.status(404).json({ success: false, error: 'No match found yet.' });
+    }
+
+    const { data: profiles, error: profilesError } = await supabaseAdmin
+      .from('user_onboarding_details')
+      .select('*')
+      .in('user_id', [assignment.mentee_id, assignment.mentor_id])
+      .returns<UserOnboardingDetails[]>();
+    if (profilesError) throw profilesError;
+
+    const mentee = profiles?.find((profile) => profile.user_id === assignment.mentee_id);
+    const mentor = profiles?.find((profile) => profile.user_id === assignment.mentor_id);
+    if (!mentee || !mentor) {
+      return res.status(404).json({ success: false, error: 'Match profile not found.' });
+    }
+
+    const explanation = await explainMatch(supabaseAdmin, mentee, mentor, assignment.score);
+    const partner = user.id === mentee.user_id ? mentor : mentee;
+    const partnerAreas = partner.help_areas_offering ?? partner.help_areas_seeking ?? [];
+
+    res.status(200).json({
+      success: true,
+      data: {
+        partner: {
+          id: partner.user_id,
+          name: partner.full_name,
+          careerStage: partner.career_stage ? formatOptionIds([partner.career_stage]) : null,
+          skills: partnerAreas.map((id) => formatOptionIds([id])),
+        },
+        matchPercentage: explanation.matchPercentage,
+        alignmentSummary: explanation.alignmentSummary,
+        source: explanation.source,
+      },
+    });
+  } catch (error: unknown) {
+    console.error('API Error in /api/matching/explanation:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to explain the match.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
@@ -0,0 +1,90 @@
+// src/pages/api/matching/run.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+
+import { loadCohortParticipants, loadCohortScoringConfig, saveCohortAssignments } from '@/lib/cohorts';
+import { AssignmentStrategy, MatchAssignment, runMatchingRound, StrategyComparison } from '@/lib/matching';
+import { getSupabaseAdminClient } from '@/lib/supabaseClient';
+import { createSupabaseServerClient, isCoordinator } from '@/lib/supabaseServer';
+
+const requestSchema = z.object({
+  cohortId: z.string().min(1, { message: 'cohortId is required.' }),
+  topK: z.number().int().min(1).max(100).optional(),
+  defaultCapacity: z.number().int().min(1).max(20).optional(),
+  strategy: z.nativeEnum(AssignmentStrategy).optional(),
+  compare: z.boolean().optional(), // Also report how the greedy and optimal strategies differ
+});
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: {
+    strategy: AssignmentStrategy;
+    assignments: MatchAssignment[]; // Each with its score breakdown when hybrid scoring was used
+    mentorLoad: Record<string, number>;
+    comparison?: StrategyComparison;
+  };
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+  if (!isCoordinator(user)) {
+    return res.status(403).json({ success: false, error: 'Only program coordinators can run matching.' });
+  }
+
+  const parsed = requestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request.' });
+  }
+  const { cohortId, topK, defaultCapacity, strategy, compare } = parsed.data;
+
+  try {
+    // Coordinators read and write other users' rows, so this runs with the service role.
+    const supabaseAdmin = getSupabaseAdminClient();
+    const { mentees, mentors } = await loadCohortParticipants(supabaseAdmin, cohortId);
+    if (mentees.length === 0 || mentors.length === 0) {
+      return res.status(400).json({ success: false, error: 'The cohort needs at least one mentee and one mentor.' });
+    }
+
+    const scoring = await loadCohortScoringConfig(supabaseAdmin, cohortId);
+    const result = await runMatchingRound(mentees, mentors, {
+      scoring,
+      strategy,
+      compare,
+      topK,
+      defaultCapacity,
+      candidateFilter: { user_id: { $in: mentors.map((mentor) => mentor.id) } },
+    });
+    await saveCohortAssignments(supabaseAdmin, cohortId, result.assignments);
+
+    res.status(200).json({
+      success: true,
+      message: `Matched ${mentees.length} mentee(s) in cohort ${cohortId} using the ${result.strategy} strategy.`,
+      data: {
+        strategy: result.strategy,
+        assignments: result.assignments,
+        mentorLoad: result.mentorLoad,
+        comparison: result.comparison,
+      },
+    });
+  } catch (error: unknown) {
+    console.error('API Error in /api/matching/run:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to run the matching round.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
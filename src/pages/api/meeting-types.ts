@@ -0,0 +1,71 @@
+// src/pages/api/meeting-types.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+
+import { listMeetingTypes, MeetingType, meetingTypeCatalogSchema, saveCohortMeetingTypes } from '@/lib/meetingTypes';
+import { getSupabaseAdminClient } from '@/lib/supabaseClient';
+import { createSupabaseServerClient, isCoordinator } from '@/lib/supabaseServer';
+
+const cohortIdSchema = z.string().min(1, { message: 'cohortId is required.' });
+
+const querySchema = z.object({ cohortId: cohortIdSchema });
+
+const putBodySchema = z.object({
+  cohortId: cohortIdSchema,
+  meetingTypes: meetingTypeCatalogSchema, // The whole catalog, in display order; empty restores the defaults
+});
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: {
+    meetingTypes: MeetingType[];
+  };
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    res.setHeader('Allow', ['GET', 'PUT']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+  if (!isCoordinator(user)) {
+    return res.status(403).json({ success: false, error: 'Only program coordinators can manage meeting types.' });
+  }
+
+  try {
+    // Coordinators edit any program's catalog, so this runs with the service role.
+    const supabaseAdmin = getSupabaseAdminClient();
+
+    if (req.method === 'GET') {
+      const parsed = querySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request.' });
+      }
+      const meetingTypes = await listMeetingTypes(supabaseAdmin, parsed.data.cohortId);
+      return res.status(200).json({ success: true, data: { meetingTypes } });
+    }
+
+    const parsed = putBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request.' });
+    }
+    const meetingTypes = await saveCohortMeetingTypes(supabaseAdmin, parsed.data.cohortId, parsed.data.meetingTypes);
+    res.status(200).json({ success: true, message: 'Meeting types saved.', data: { meetingTypes } });
+  } catch (error: unknown) {
+    console.error('API Error in /api/meeting-types:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to process the meeting types request.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
@@ -0,0 +1,243 @@
+// src/pages/api/meetings/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+
+import { checkMeetingConflicts, SlotConflict, TimeInterval } from '@/lib/availability';
+import {
+  cancelCalendarEventSeries,
+  cancelStoredCalendarEvent,
+  rescheduleCalendarEvent,
+  rescheduleCalendarEventSeries,
+} from '@/lib/calendarEvents';
+import { isRevokedGrantError } from '@/lib/googleCalendar';
+import {
+  getMeeting,
+  hasValidDuration,
+  listMeetings,
+  MeetingRowWithCalendarEvent,
+  meetingTimesSchema,
+  MeetingSummary,
+  toMeetingSummaries,
+  updateMeeting,
+} from '@/lib/meetings';
+import { shiftOccurrence } from '@/lib/meetingSeries';
+import { getSupabaseAdminClient } from '@/lib/supabaseClient';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+const querySchema = z.object({
+  id: z.string().uuid({ message: 'Meeting id must be a uuid.' }),
+});
+
+// For meetings in a series: change only this occurrence, or it and every later one.
+const scopeSchema = z
+  .enum(['occurrence', 'following'], { message: 'scope must be "occurrence" or "following".' })
+  .default('occurrence');
+
+const patchBodySchema = z.discriminatedUnion('action', [
+  meetingTimesSchema.extend({
+    action: z.literal('reschedule'),
+    scope: scopeSchema,
+    allowConflicts: z.boolean().optional(), // Save even if the new time clashes
+  }),
+  z.object({ action: z.literal('cancel'), scope: scopeSchema }),
+  z.object({ action: z.literal('complete') }),
+  z.object({ action: z.literal('skip') }),
+], { errorMap: () => ({ message: 'action must be "reschedule", "cancel", "complete" or "skip".' }) });
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: {
+    meeting?: MeetingSummary;
+    meetings?: MeetingSummary[]; // Every meeting changed when the scope was "following"
+    calendarError?: string; // Set when the change was saved but Google Calendar sync failed
+    conflicts?: SlotConflict[]; // Set with a 409 when allowConflicts was not given
+  };
+};
+
+function calendarSyncErrorMessage(error: unknown): string {
+  return isRevokedGrantError(error)
+    ? 'Google Calendar access was revoked. Please reconnect your calendar.'
+    : 'The change was saved but could not be synced to Google Calendar.';
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    res.setHeader('Allow', ['GET', 'PATCH']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+
+  const query = querySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ success: false, error: query.error.errors[0]?.message || 'Invalid request.' });
+  }
+
+  try {
+    const supabaseAdmin = getSupabaseAdminClient();
+    // RLS hides meetings the user does not take part in.
+    const meeting = await getMeeting(supabaseServerClient, query.data.id);
+    if (!meeting) {
+      return res.status(404).json({ success: false, error: 'Meeting not found.' });
+    }
+
+    if (req.method === 'GET') {
+      const [summary] = await toMeetingSummaries(supabaseAdmin, user.id, [meeting]);
+      return res.status(200).json({ success: true, data: { meeting: summary } });
+    }
+
+    const parsed = patchBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request.' });
+    }
+    const body = parsed.data;
+    if (meeting.status !== 'scheduled') {
+      return res.status(409).json({ success: false, error: `This meeting has already been ${meeting.status}.` });
+    }
+
+    // Meetings the change applies to, in start order: this one, and for
+    // "following" the later scheduled occurrences of its series.
+    let targets: MeetingRowWithCalendarEvent[] = [meeting];
+    if ((body.action === 'reschedule' || body.action === 'cancel') && body.scope === 'following' && meeting.series_id) {
+      const series = await listMeetings(supabaseServerClient, user.id, {
+        seriesId: meeting.series_id,
+        from: meeting.start_at,
+        statuses: ['scheduled'],
+      });
+      targets = series.filter((occurrence) => occurrence.start_at >= meeting.start_at);
+    }
+
+    const updated: MeetingRowWithCalendarEvent[] = [];
+    let calendarError: string | undefined;
+    // Calendar sync is best-effort and reports the first failure only.
+    const syncCalendar = async (calendarEventId: string | null, sync: (id: string) => Promise<unknown>, notConnected: string) => {
+      if (!calendarEventId || calendarError) return;
+      try {
+        if (!(await sync(calendarEventId))) calendarError = notConnected;
+      } catch (error) {
+        console.error('[api/meetings/[id]] Error syncing calendar event:', error);
+        calendarError = calendarSyncErrorMessage(error);
+      }
+    };
+
+    switch (body.action) {
+      case 'reschedule': {
+        if (!hasValidDuration(body)) {
+          return res.status(400).json({ success: false, error: 'The meeting must end after it starts.' });
+        }
+        // Meetings keep the length they were booked with, even if their type's duration has changed since.
+        const bookedMs = Date.parse(meeting.end_at) - Date.parse(meeting.start_at);
+        if (Date.parse(body.end) - Date.parse(body.start) !== bookedMs) {
+          return res.status(400).json({ success: false, error: `This meeting lasts ${bookedMs / 60000} minutes.` });
+        }
+        // Later occurrences keep their own dates and move by the same amount on the series' wall clock,
+        // and their calendar events are kept in that zone too.
+        const timeZone = meeting.series?.time_zone ?? body.timeZone;
+        const newTimes = targets.map((target): TimeInterval => target.id === meeting.id
+          ? { start: body.start, end: body.end }
+          : shiftOccurrence(target.start_at, meeting.start_at, body, timeZone ?? 'UTC'));
+
+        if (!body.allowConflicts) {
+          const conflicts = await checkMeetingConflicts(
+            supabaseAdmin,
+            { menteeId: meeting.mentee_id, mentorId: meeting.mentor_id },
+            newTimes,
+            targets.map((target) => target.id)
+          );
+          if (conflicts.length > 0) {
+            return res.status(409).json({
+              success: false,
+              error: 'The new time clashes with other meetings or the mentor\'s availability.',
+              data: { conflicts },
+            });
+          }
+        }
+
+        for (const [index, target] of targets.entries()) {
+          const { start, end } = newTimes[index];
+          updated.push(await updateMeeting(supabaseServerClient, target.id, { start_at: start, end_at: end }));
+        }
+        const notConnected = 'Google Calendar is no longer connected, so the event was not updated.';
+        const { series } = meeting;
+        if (targets.length > 1 && series) {
+          // Later occurrences move together onto a new recurring event, in one go.
+          const changes = targets.flatMap((target, index) => target.calendar_event_id
+            ? [{ calendarEventId: target.calendar_event_id, ...newTimes[index] }]
+            : []);
+          await syncCalendar(
+            changes[0]?.calendarEventId ?? null,
+            () => rescheduleCalendarEventSeries(supabaseAdmin, changes, {
+              summary: meeting.title,
+              description: meeting.description,
+              meetingType: meeting.meeting_type,
+              frequency: series.frequency,
+              timeZone: series.time_zone,
+            }),
+            notConnected
+          );
+        } else {
+          await syncCalendar(
+            meeting.calendar_event_id,
+            (id) => rescheduleCalendarEvent(supabaseAdmin, id, { ...newTimes[0], timeZone }),
+            notConnected
+          );
+        }
+        break;
+      }
+      case 'cancel':
+      case 'skip': {
+        if (body.action === 'skip' && !meeting.series_id) {
+          return res.status(400).json({ success: false, error: 'Only meetings in a series can be skipped.' });
+        }
+        for (const target of targets) {
+          updated.push(await updateMeeting(supabaseServerClient, target.id, {
+            status: body.action === 'skip' ? 'skipped' : 'cancelled',
+          }));
+        }
+        // Later occurrences are removed by ending their recurring event, in one go.
+        const calendarEventIds = targets.flatMap((target) => target.calendar_event_id ?? []);
+        await syncCalendar(
+          calendarEventIds[0] ?? null,
+          (id) => targets.length > 1
+            ? cancelCalendarEventSeries(supabaseAdmin, calendarEventIds)
+            : cancelStoredCalendarEvent(supabaseAdmin, id),
+          'Google Calendar is no longer connected, so the event was not cancelled.'
+        );
+        break;
+      }
+      case 'complete': {
+        if (Date.parse(meeting.start_at) > Date.now()) {
+          return res.status(409).json({ success: false, error: 'A meeting can only be marked complete once it has started.' });
+        }
+        updated.push(await updateMeeting(supabaseServerClient, meeting.id, { status: 'completed' }));
+        break;
+      }
+    }
+
+    const summaries = await toMeetingSummaries(supabaseAdmin, user.id, updated);
+    res.status(200).json({
+      success: true,
+      message: summaries.length > 1 ? `${summaries.length} meetings updated.` : 'Meeting updated.',
+      data: {
+        meeting: summaries.find((summary) => summary.id === meeting.id),
+        meetings: summaries.length > 1 ? summaries : undefined,
+        calendarError,
+      },
+    });
+  } catch (error: unknown) {
+    console.error('API Error in /api/meetings/[id]:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to update the meeting.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
@@ -0,0 +1,233 @@
+// src/pages/api/meetings/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+
+import { checkMeetingConflicts, SlotConflict } from '@/lib/availability';
+import { scheduleCalendarEvent, scheduleCalendarEventSeries } from '@/lib/calendarEvents';
+import { findUserAssignment } from '@/lib/cohorts';
+import { isRevokedGrantError } from '@/lib/googleCalendar';
+import {
+  createMeeting,
+  hasValidDuration,
+  listMeetings,
+  MeetingRowWithCalendarEvent,
+  meetingTimesSchema,
+  MeetingStatus,
+  MeetingSummary,
+  toMeetingSummaries,
+  updateMeeting,
+} from '@/lib/meetings';
+import { createMeetingSeries, generateOccurrences, recurrenceSchema } from '@/lib/meetingSeries';
+import { listPairMeetingTypes } from '@/lib/meetingTypes';
+import { getSupabaseAdminClient } from '@/lib/supabaseClient';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+const MEETING_STATUSES = ['scheduled', 'completed', 'cancelled', 'skipped'] as const satisfies readonly MeetingStatus[];
+const MAX_LIST_LIMIT = 200;
+
+const partnerIdSchema = z.string().uuid({ message: 'partnerId must be a user id.' });
+
+const listQuerySchema = z.object({
+  partnerId: partnerIdSchema.optional(),
+  from: z.string().datetime({ offset: true, message: 'from must be an ISO 8601 date-time.' }).optional(),
+  to: z.string().datetime({ offset: true, message: 'to must be an ISO 8601 date-time.' }).optional(),
+  // Comma-separated, e.g. "scheduled,completed"
+  status: z
+    .string()
+    .transform((value) => value.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(MEETING_STATUSES, { message: 'Unknown meeting status.' })))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LIST_LIMIT).optional(),
+});
+
+const createBodySchema = meetingTimesSchema.extend({
+  partnerId: partnerIdSchema.optional(),
+  title: z.string().trim().min(1, { message: 'Please enter a meeting title.' }).max(200),
+  description: z.string().trim().max(5000).optional(),
+  meetingTypeId: z.string().trim().min(1).max(100).optional(), // From the pair's program catalog
+  syncWithCalendar: z.boolean().optional(),
+  // Repeat the meeting; occurrences follow the wall clock in timeZone
+  recurrence: recurrenceSchema.optional(),
+  // Save even if the time clashes with other meetings or the mentor's hours
+  allowConflicts: z.boolean().optional(),
+});
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: {
+    meetings?: MeetingSummary[]; // Every occurrence when a series was created
+    meeting?: MeetingSummary; // The new meeting, or the first of a new series
+    calendarError?: string; // Set when the meeting was saved but Google Calendar sync failed
+    conflicts?: SlotConflict[]; // Set with a 409 when allowConflicts was not given
+  };
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  // Meetings are read and written as the user, so Row Level Security applies.
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+
+  try {
+    const supabaseAdmin = getSupabaseAdminClient();
+
+    if (req.method === 'GET') {
+      const parsed = listQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request.' });
+      }
+      const { status, ...filter } = parsed.data;
+      const rows = await listMeetings(supabaseServerClient, user.id, { ...filter, statuses: status });
+      return res.status(200).json({ success: true, data: { meetings: await toMeetingSummaries(supabaseAdmin, user.id, rows) } });
+    }
+
+    const parsed = createBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request.' });
+    }
+    const {
+      partnerId,
+      title,
+      description,
+      meetingTypeId,
+      start,
+      end,
+      timeZone,
+      syncWithCalendar,
+      recurrence,
+      allowConflicts,
+    } = parsed.data;
+    if (!hasValidDuration(parsed.data)) {
+      return res.status(400).json({ success: false, error: 'The meeting must end after it starts.' });
+    }
+    if (recurrence && !timeZone) {
+      return res.status(400).json({ success: false, error: 'timeZone is required for recurring meetings.' });
+    }
+
+    // Meetings can only be scheduled with the user's matched partner.
+    const assignment = await findUserAssignment(supabaseAdmin, user.id, partnerId);
+    if (!assignment || !assignment.mentor_id) {
+      return res.status(404).json({ success: false, error: 'No match found yet.' });
+    }
+    const pair = { menteeId: assignment.mentee_id, mentorId: assignment.mentor_id };
+
+    // The type must be in the pair's program catalog, open to the user's role, and sets the length.
+    let meetingType: string | undefined;
+    if (meetingTypeId) {
+      const partner = user.id === pair.menteeId ? pair.mentorId : pair.menteeId;
+      const type = (await listPairMeetingTypes(supabaseAdmin, user.id, partner)).find((option) => option.id === meetingTypeId);
+      if (!type) {
+        return res.status(400).json({ success: false, error: 'Unknown meeting type.' });
+      }
+      if (!type.allowedRoles.includes(user.id === pair.menteeId ? 'mentee' : 'mentor')) {
+        return res.status(403).json({ success: false, error: `${type.name} meetings can't be requested by your role.` });
+      }
+      if (Date.parse(end) - Date.parse(start) !== type.durationMinutes * 60000) {
+        return res.status(400).json({ success: false, error: `${type.name} meetings last ${type.durationMinutes} minutes.` });
+      }
+      meetingType = type.name;
+    }
+
+    const occurrences = recurrence && timeZone
+      ? generateOccurrences({ start, end }, recurrence, timeZone)
+      : [{ start, end }];
+    if (recurrence && occurrences.length < 2) {
+      return res.status(400).json({ success: false, error: 'The series must have at least 2 meetings before it ends.' });
+    }
+
+    if (!allowConflicts) {
+      const conflicts = await checkMeetingConflicts(supabaseAdmin, pair, occurrences);
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: 'Some of these times clash with other meetings or the mentor\'s availability.',
+          data: { conflicts },
+        });
+      }
+    }
+
+    const newMeetings = occurrences.map((occurrence) => ({
+      mentee_id: pair.menteeId,
+      mentor_id: pair.mentorId,
+      created_by: user.id,
+      title,
+      description: description || null,
+      meeting_type: meetingType ?? null,
+      start_at: occurrence.start,
+      end_at: occurrence.end,
+    }));
+    const meetings: MeetingRowWithCalendarEvent[] = recurrence && timeZone
+      ? await createMeetingSeries(supabaseServerClient, {
+        mentee_id: pair.menteeId,
+        mentor_id: pair.mentorId,
+        created_by: user.id,
+        frequency: recurrence.frequency,
+        time_zone: timeZone,
+        until_date: recurrence.until ?? null,
+        occurrence_count: recurrence.count ?? null,
+      }, newMeetings)
+      : [await createMeeting(supabaseServerClient, newMeetings[0])];
+
+    // Calendar sync is best-effort; the meetings are saved either way. A series
+    // is one recurring event, and each meeting keeps its own occurrence so it
+    // can be moved or cancelled alone.
+    let calendarError: string | undefined;
+    if (syncWithCalendar) {
+      try {
+        const calendarEvents = recurrence && timeZone
+          ? await scheduleCalendarEventSeries(
+            supabaseAdmin,
+            user.id,
+            pair,
+            { summary: title, description, meetingType, frequency: recurrence.frequency, timeZone },
+            meetings.map((meeting) => ({ start: meeting.start_at, end: meeting.end_at }))
+          )
+          : await scheduleCalendarEvent(supabaseAdmin, user.id, pair, {
+            summary: title,
+            description,
+            meetingType,
+            start: meetings[0].start_at,
+            end: meetings[0].end_at,
+            timeZone,
+          }).then((calendarEvent) => calendarEvent && [calendarEvent]);
+        if (!calendarEvents) {
+          calendarError = 'Connect your Google Calendar to sync meetings.';
+        } else {
+          for (const [index, calendarEvent] of calendarEvents.entries()) {
+            meetings[index] = await updateMeeting(supabaseServerClient, meetings[index].id, { calendar_event_id: calendarEvent.id });
+          }
+        }
+      } catch (error) {
+        console.error('[api/meetings] Error syncing meeting to Google Calendar:', error);
+        calendarError = isRevokedGrantError(error)
+          ? 'Google Calendar access was revoked. Please reconnect your calendar.'
+          : 'The meeting was saved but could not be added to Google Calendar.';
+      }
+    }
+
+    const summaries = await toMeetingSummaries(supabaseAdmin, user.id, meetings);
+    res.status(201).json({
+      success: true,
+      message: recurrence ? `${summaries.length} meetings scheduled.` : 'Meeting scheduled.',
+      data: { meeting: summaries[0], meetings: recurrence ? summaries : undefined, calendarError },
+    });
+  } catch (error: unknown) {
+    console.error('API Error in /api/meetings:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to process the meeting request.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
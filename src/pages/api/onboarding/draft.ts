@@ -0,0 +1,67 @@
+// src/pages/api/onboarding/draft.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import {
+  deleteOnboardingDraft,
+  loadOnboardingDraft,
+  OnboardingDraftRow,
+  onboardingDraftSchema,
+  saveOnboardingDraft,
+} from '@/lib/onboardingDrafts';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: Pick<OnboardingDraftRow, 'step' | 'data' | 'updated_at' | 'expires_at'> | null;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (!['GET', 'PUT', 'DELETE'].includes(req.method ?? '')) {
+    res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  // Drafts are read and written as the user, so Row Level Security applies.
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user) {
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const draft = await loadOnboardingDraft(supabaseServerClient, user.id);
+      return res.status(200).json({
+        success: true,
+        data: draft && { step: draft.step, data: draft.data, updated_at: draft.updated_at, expires_at: draft.expires_at },
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteOnboardingDraft(supabaseServerClient, user.id);
+      return res.status(200).json({ success: true, message: 'Draft discarded.' });
+    }
+
+    const parsed = onboardingDraftSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid draft.' });
+    }
+    const draft = await saveOnboardingDraft(supabaseServerClient, user.id, parsed.data);
+    res.status(200).json({
+      success: true,
+      message: 'Draft saved.',
+      data: { step: draft.step, data: draft.data, updated_at: draft.updated_at, expires_at: draft.expires_at },
+    });
+  } catch (error: unknown) {
+    console.error('API Error in /api/onboarding/draft:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to process the onboarding draft.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
@@ -0,0 +1,114 @@
+// src/pages/api/profile.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { z } from 'zod';
+
+import { OnboardingData, onboardingDataSchema, onboardingDataToRow, rowToOnboardingData } from '@/lib/onboardingSchema';
+import { indexUserProfile } from '@/lib/profileIndex';
+import { buildProfileEmbeddingText, changedMatchInputs, MatchInputField, UserOnboardingDetails } from '@/lib/profiles';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+
+// Any subset of the onboarding fields; the merged profile is validated as a whole.
+const patchSchema = z.object({}).passthrough();
+
+type ApiResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: {
+    profile: UserOnboardingDetails;
+    form: OnboardingData;
+    changedMatchInputs?: MatchInputField[];
+    matchesMayHaveChanged?: boolean;
+    profileIndexed?: boolean; // False if the profile was saved but could not be re-embedded
+  };
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    res.setHeader('Allow', ['GET', 'PATCH']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  // Profiles are read and written as the user, so Row Level Security applies.
+  const supabaseServerClient = createSupabaseServerClient(req, res);
+  const { data: { user }, error: authError } = await supabaseServerClient.auth.getUser();
+  if (authError || !user || !user.email) {
+    return res.status(401).json({ success: false, error: 'Authentication failed. Please log in.' });
+  }
+
+  try {
+    const { data: current, error: loadError } = await supabaseServerClient
+      .from('user_onboarding_details')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle<UserOnboardingDetails>();
+    if (loadError) throw loadError;
+    if (!current) {
+      return res.status(404).json({ success: false, error: 'Please complete onboarding first.' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, data: { profile: current, form: rowToOnboardingData(current) } });
+    }
+
+    const patch = patchSchema.safeParse(req.body);
+    if (!patch.success) {
+      return res.status(400).json({ success: false, error: 'Invalid profile update.' });
+    }
+    if ('role' in patch.data && patch.data.role !== current.role) {
+      return res.status(400).json({ success: false, error: 'Your role cannot be changed from settings.' });
+    }
+    const parsed = onboardingDataSchema.safeParse({ ...rowToOnboardingData(current), ...patch.data, role: current.role });
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid profile update.' });
+    }
+
+    const updates = onboardingDataToRow(parsed.data, { id: user.id, email: user.email });
+    const changedFields = changedMatchInputs(current, updates);
+    const { data: updated, error: updateError } = await supabaseServerClient
+      .from('user_onboarding_details')
+      .update({
+        ...updates,
+        ...(changedFields.length > 0 && { match_inputs_changed_at: updates.updated_at }),
+      })
+      .eq('user_id', user.id)
+      .select()
+      .single<UserOnboardingDetails>();
+    if (updateError || !updated) {
+      console.error('Supabase profile update error:', updateError);
+      throw new Error('Database error saving profile.');
+    }
+
+    // Re-embed only when the embedded text changed; a failure leaves the old vector in place.
+    let profileIndexed = true;
+    if (buildProfileEmbeddingText(updated) !== buildProfileEmbeddingText(current)) {
+      try {
+        profileIndexed = await indexUserProfile(updated);
+      } catch (indexError) {
+        console.error('Error re-indexing profile:', indexError);
+        profileIndexed = false;
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Your profile has been updated.',
+      data: {
+        profile: updated,
+        form: rowToOnboardingData(updated),
+        changedMatchInputs: changedFields,
+        matchesMayHaveChanged: changedFields.length > 0,
+        profileIndexed,
+      },
+    });
+  } catch (error: unknown) {
+    console.error('API Error in /api/profile:', error);
+    const errorMessage = process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Failed to process the profile request.';
+    res.status(500).json({ success: false, error: errorMessage });
+  }
+}
@@ -1,6 +1,6 @@
 // src/pages/auth/login.tsx
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/router"; // For Pages Router
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -27,6 +27,16 @@ import {
 import { Input } from "@/components/ui/input";
 import { Users } from "lucide-react"; // Icon
 
+import {
+  AUTH_EMAIL_COOLDOWN_SECONDS,
+  authLinkErrorMessage,
+  emailLinkErrorMessage,
+  isRateLimitError,
+  MAGIC_LINK_SENT_MESSAGE,
+  PASSWORD_RESET_SENT_MESSAGE,
+  passwordLoginErrorMessage,
+} from "@/lib/authMessages";
+import { authCallbackUrl, resolvePostAuthPath, safeRedirectPath } from "@/lib/authRedirect";
 import { supabase } from "@/lib/supabaseClient"; // Your Supabase client
 
 // 1. Define the form schema with Zod
@@ -39,11 +49,39 @@ const formSchema = z.object({
   }),
 });
 
+// Magic-link and password-reset requests only need the email
+const emailFormSchema = formSchema.pick({ email: true });
+
+type LoginMode = "password" | "magic-link" | "reset-password";
+
+const modeCopy: Record<LoginMode, { title: string; description: string }> = {
+  "password": { title: "Log In", description: "Enter your email and password to access your account." },
+  "magic-link": { title: "Email Me a Login Link", description: "We'll email you a link that logs you in without a password." },
+  "reset-password": { title: "Reset Password", description: "We'll email you a link to choose a new password." },
+};
+
 export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null); // For Supabase auth errors
+  const [notice, setNotice] = useState<string | null>(null); // "Check your email" confirmations
+  const [mode, setMode] = useState<LoginMode>("password");
+  const [cooldownSeconds, setCooldownSeconds] = useState(0); // Wait before another email can be sent
   const router = useRouter();
 
+  // Errors from the email confirmation callback arrive as ?error=<code>; the text is never taken from the URL
+  useEffect(() => {
+    const message = authLinkErrorMessage(router.query.error);
+    if (message) {
+      setAuthError(message);
+    }
+  }, [router.query.error]);
+
+  useEffect(() => {
+    if (cooldownSeconds <= 0) return;
+    const timer = setTimeout(() => setCooldownSeconds((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldownSeconds]);
+
   // 2. Initialize react-hook-form
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -53,6 +91,23 @@ export default function LoginPage() {
     },
   });
 
+  const emailForm = useForm<z.infer<typeof emailFormSchema>>({
+    resolver: zodResolver(emailFormSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  function switchMode(nextMode: LoginMode) {
+    // Carry the email over so it doesn't have to be typed again
+    const email = nextMode === "password" ? emailForm.getValues("email") : form.getValues("email");
+    if (nextMode === "password") form.setValue("email", email);
+    else emailForm.setValue("email", email);
+    setMode(nextMode);
+    setAuthError(null);
+    setNotice(null);
+  }
+
   // 3. Handle form submission with Supabase
   async function onSubmit(values: z.infer<typeof formSchema>) {
     setIsLoading(true);
@@ -63,21 +118,73 @@ export default function LoginPage() {
       password: values.password,
     });
 
-    setIsLoading(false);
-
     if (error) {
+      setIsLoading(false);
       console.error("Supabase login error:", error.message);
-      setAuthError(error.message); // Display Supabase error to the user
+      setAuthError(passwordLoginErrorMessage(error)); // Never reveals whether the email has an account
     } else if (data.user) {
       console.log("Login successful, user:", data.user);
-      // Redirect to dashboard after successful login
-      router.push("/dashboard");
+      // Return to the page that required login; otherwise users who have not
+      // finished onboarding go there and everyone else to the dashboard
+      router.push(safeRedirectPath(router.query.next) ?? await resolvePostAuthPath(supabase, data.user.id));
     } else {
+      setIsLoading(false);
       // Fallback error if no user and no specific error from Supabase
       setAuthError("An unexpected issue occurred during login. Please try again.");
     }
   }
 
+  // Google sign-in through Supabase OAuth; Calendar access is requested separately
+  // from the meetings page (/api/auth/google) only when the user connects it
+  async function onGoogleSignIn() {
+    setAuthError(null);
+    setNotice(null);
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider: "google",
+      options: {
+        redirectTo: authCallbackUrl(window.location.origin, safeRedirectPath(router.query.next) ?? undefined),
+      },
+    });
+    if (error) {
+      console.error("Supabase Google sign-in error:", error.message);
+      setAuthError("We couldn't start Google sign-in. Please try again.");
+    }
+  }
+
+  // Magic link and password reset: the link signs the user in via the auth callback
+  async function onSendLink(values: z.infer<typeof emailFormSchema>) {
+    if (cooldownSeconds > 0) return;
+    setIsLoading(true);
+    setAuthError(null);
+    setNotice(null);
+
+    const { error } = mode === "reset-password"
+      ? await supabase.auth.resetPasswordForEmail(values.email, {
+          redirectTo: authCallbackUrl(window.location.origin, "/auth/update-password"),
+        })
+      : await supabase.auth.signInWithOtp({
+          email: values.email,
+          options: {
+            shouldCreateUser: false, // New accounts go through the signup page
+            emailRedirectTo: authCallbackUrl(window.location.origin, safeRedirectPath(router.query.next) ?? undefined),
+          },
+        });
+
+    setIsLoading(false);
+    if (error) {
+      console.error("Supabase email link error:", error.message);
+      const errorMessage = emailLinkErrorMessage(error);
+      if (errorMessage) {
+        setAuthError(errorMessage);
+        if (isRateLimitError(error)) setCooldownSeconds(AUTH_EMAIL_COOLDOWN_SECONDS);
+        return;
+      }
+    }
+    // Same confirmation whether or not the email has an account
+    setNotice(mode === "reset-password" ? PASSWORD_RESET_SENT_MESSAGE : MAGIC_LINK_SENT_MESSAGE);
+    setCooldownSeconds(AUTH_EMAIL_COOLDOWN_SECONDS);
+  }
+
   return (
     <div className="flex min-h-screen flex-col">
       <header className="sticky top-0 z-50 w-full border-b bg-white">
@@ -99,66 +206,135 @@ export default function LoginPage() {
         <div className="container max-w-md">
           <Card>
             <CardHeader className="space-y-1 text-center"> {/* Centering header text */}
-              <CardTitle className="text-2xl font-bold">Log In</CardTitle>
+              <CardTitle className="text-2xl font-bold">{modeCopy[mode].title}</CardTitle>
               <CardDescription>
-                Enter your email and password to access your account.
+                {modeCopy[mode].description}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="email"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Email</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="email" // Explicitly set type for better browser handling
-                            placeholder="name@example.com"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage /> {/* Displays Zod validation errors */}
-                      </FormItem>
+              {mode !== "reset-password" && (
+                <>
+                  <Button type="button" variant="outline" className="w-full" onClick={onGoogleSignIn}>
+                    Continue with Google
+                  </Button>
+                  <div className="my-4 flex items-center gap-2 text-xs uppercase text-gray-400">
+                    <span className="h-px flex-1 bg-gray-200" />
+                    or
+                    <span className="h-px flex-1 bg-gray-200" />
+                  </div>
+                </>
+              )}
+              {mode === "password" ? (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email" // Explicitly set type for better browser handling
+                              placeholder="name@example.com"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage /> {/* Displays Zod validation errors */}
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="••••••••"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage /> {/* Displays Zod validation errors */}
+                        </FormItem>
+                      )}
+                    />
+                    {authError && ( // Display Supabase authentication errors
+                      <p className="text-sm font-medium text-destructive">
+                        {authError}
+                      </p>
                     )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Password</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="password"
-                            placeholder="••••••••"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage /> {/* Displays Zod validation errors */}
-                      </FormItem>
+                    <Button
+                      type="submit"
+                      className="w-full bg-pink-500 hover:bg-pink-600"
+                      disabled={isLoading}
+                    >
+                      {isLoading ? "Logging in..." : "Log In"}
+                    </Button>
+                  </form>
+                </Form>
+              ) : (
+                <Form {...emailForm}>
+                  <form onSubmit={emailForm.handleSubmit(onSendLink)} className="space-y-4">
+                    <FormField
+                      control={emailForm.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email"
+                              placeholder="name@example.com"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {authError && (
+                      <p className="text-sm font-medium text-destructive">
+                        {authError}
+                      </p>
                     )}
-                  />
-                  {authError && ( // Display Supabase authentication errors
-                    <p className="text-sm font-medium text-destructive">
-                      {authError}
-                    </p>
-                  )}
-                  <Button
-                    type="submit"
-                    className="w-full bg-pink-500 hover:bg-pink-600"
-                    disabled={isLoading}
-                  >
-                    {isLoading ? "Logging in..." : "Log In"}
-                  </Button>
-                </form>
-              </Form>
-              <div className="mt-4 text-center text-sm">
-                <Link href="#" className="text-pink-500 hover:underline">
-                  Forgot password?
-                </Link>
+                    {notice && (
+                      <p className="text-sm text-gray-600">
+                        {notice}
+                      </p>
+                    )}
+                    <Button
+                      type="submit"
+                      className="w-full bg-pink-500 hover:bg-pink-600"
+                      disabled={isLoading || cooldownSeconds > 0}
+                    >
+                      {isLoading
+                        ? "Sending..."
+                        : cooldownSeconds > 0
+                          ? `Resend in ${cooldownSeconds}s`
+                          : mode === "reset-password" ? "Send Reset Link" : "Send Login Link"}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+              <div className="mt-4 flex flex-col items-center gap-2 text-sm">
+                {mode !== "reset-password" && (
+                  <button type="button" onClick={() => switchMode("reset-password")} className="text-pink-500 hover:underline">
+                    Forgot password?
+                  </button>
+                )}
+                {mode !== "magic-link" && (
+                  <button type="button" onClick={() => switchMode("magic-link")} className="text-pink-500 hover:underline">
+                    Email me a login link
+                  </button>
+                )}
+                {mode !== "password" && (
+                  <button type="button" onClick={() => switchMode("password")} className="text-pink-500 hover:underline">
+                    Log in with password
+                  </button>
+                )}
               </div>
             </CardContent>
             <CardFooter className="flex flex-col items-center"> {/* Centering footer content */}
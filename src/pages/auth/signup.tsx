@@ -0,0 +1,273 @@
+// src/pages/auth/signup.tsx
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { MailCheck, Users } from "lucide-react";
+
+import { emailLinkErrorMessage, signupErrorMessage } from "@/lib/authMessages";
+import { authCallbackUrl, resolvePostAuthPath } from "@/lib/authRedirect";
+import type { UserRole } from "@/lib/profiles";
+import { supabase } from "@/lib/supabaseClient";
+
+const formSchema = z
+  .object({
+    fullName: z.string().trim().min(2, {
+      message: "Please enter your full name.",
+    }),
+    email: z.string().email({
+      message: "Please enter a valid email address.",
+    }),
+    password: z.string().min(8, { // Matches the login form's policy
+      message: "Password must be at least 8 characters.",
+    }),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Passwords do not match.",
+    path: ["confirmPassword"],
+  });
+
+type SignupFormValues = z.infer<typeof formSchema>;
+
+// The landing page links here with ?role=mentee or ?role=mentor; onboarding preselects it.
+function parseRoleQuery(role: string | string[] | undefined): UserRole | undefined {
+  return role === "mentee" || role === "mentor" ? role : undefined;
+}
+
+export default function SignupPage() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null); // Set once the confirmation email is sent
+  const [resendStatus, setResendStatus] = useState<string | null>(null);
+  const router = useRouter();
+  const role = parseRoleQuery(router.query.role);
+
+  const form = useForm<SignupFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      fullName: "",
+      email: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  async function onSubmit(values: SignupFormValues) {
+    setIsLoading(true);
+    setAuthError(null);
+
+    const { data, error } = await supabase.auth.signUp({
+      email: values.email,
+      password: values.password,
+      options: {
+        // The confirmation link signs the user in via the callback, which routes them to onboarding.
+        emailRedirectTo: authCallbackUrl(window.location.origin),
+        data: { full_name: values.fullName.trim(), role }, // Prefills the onboarding form
+      },
+    });
+
+    if (error) {
+      setIsLoading(false);
+      console.error("Supabase signup error:", error.message);
+      // An address that already has an account gets the same screen as a new one
+      const message = signupErrorMessage(error);
+      if (message) setAuthError(message);
+      else setPendingEmail(values.email);
+      return;
+    }
+
+    if (data.session && data.user) {
+      // Email confirmation is disabled for this project, so the user is already signed in.
+      router.push(await resolvePostAuthPath(supabase, data.user.id));
+      return;
+    }
+
+    // Supabase answers the same way for addresses that are already registered,
+    // so this screen does not reveal which emails have accounts.
+    setIsLoading(false);
+    setPendingEmail(values.email);
+  }
+
+  async function resendConfirmation() {
+    if (!pendingEmail) return;
+    setResendStatus(null);
+    const { error } = await supabase.auth.resend({
+      type: "signup",
+      email: pendingEmail,
+      options: { emailRedirectTo: authCallbackUrl(window.location.origin) },
+    });
+    const message = error && emailLinkErrorMessage(error); // Never reveals whether the email has an account
+    if (error) console.error("Supabase resend error:", error.message);
+    if (message) {
+      setResendStatus(message);
+    } else {
+      setResendStatus("We sent another confirmation email.");
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="sticky top-0 z-50 w-full border-b bg-white">
+        <div className="container flex h-16 items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <Users className="h-6 w-6 text-pink-500" />
+            <span className="text-xl font-bold">MentorMatch</span>
+          </Link>
+          <div className="flex items-center gap-4">
+            <Link href="/auth/login">
+              <Button variant="outline">
+                Log In
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+      <main className="flex-1 bg-gray-50 flex items-center justify-center py-12">
+        <div className="container max-w-md">
+          {pendingEmail ? (
+            <Card>
+              <CardHeader className="space-y-1 text-center">
+                <MailCheck className="mx-auto h-10 w-10 text-pink-500" />
+                <CardTitle className="text-2xl font-bold">Check your email</CardTitle>
+                <CardDescription>
+                  We sent a confirmation link to <span className="font-medium">{pendingEmail}</span>.
+                  Open it to verify your account and start onboarding.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="text-center text-sm">
+                <Button variant="outline" onClick={resendConfirmation}>
+                  Resend email
+                </Button>
+                {resendStatus && (
+                  <p className="mt-3 text-gray-500">{resendStatus}</p>
+                )}
+              </CardContent>
+              <CardFooter className="flex flex-col items-center">
+                <div className="text-sm">
+                  Already confirmed?{" "}
+                  <Link href="/auth/login" className="text-pink-500 hover:underline">
+                    Log in
+                  </Link>
+                </div>
+              </CardFooter>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader className="space-y-1 text-center">
+                <CardTitle className="text-2xl font-bold">Create an Account</CardTitle>
+                <CardDescription>
+                  {role === "mentor"
+                    ? "Sign up to start mentoring."
+                    : role === "mentee"
+                      ? "Sign up to find a mentor."
+                      : "Sign up to find a mentor or start mentoring."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="fullName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Full Name</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="name" placeholder="Jane Doe" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input type="email" autoComplete="email" placeholder="name@example.com" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" autoComplete="new-password" placeholder="••••••••" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirm Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" autoComplete="new-password" placeholder="••••••••" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {authError && (
+                      <p className="text-sm font-medium text-destructive">
+                        {authError}
+                      </p>
+                    )}
+                    <Button
+                      type="submit"
+                      className="w-full bg-pink-500 hover:bg-pink-600"
+                      disabled={isLoading}
+                    >
+                      {isLoading ? "Creating account..." : "Sign Up"}
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+              <CardFooter className="flex flex-col items-center">
+                <div className="text-sm">
+                  Already have an account?{" "}
+                  <Link href="/auth/login" className="text-pink-500 hover:underline">
+                    Log in
+                  </Link>
+                </div>
+              </CardFooter>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
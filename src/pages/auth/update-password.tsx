@@ -0,0 +1,239 @@
+// src/pages/auth/update-password.tsx
+// Landing page for password-reset emails. The auth callback has already
+// exchanged the link's code for a recovery session before redirecting here.
+// Sessions that did not come from a recent reset link must confirm the
+// current password first.
+
+import type { AMREntry } from "@supabase/supabase-js";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { toast as sonnerToast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Loader2, Users } from "lucide-react";
+
+import { currentPasswordErrorMessage, passwordUpdateErrorMessage } from "@/lib/authMessages";
+import { resolvePostAuthPath } from "@/lib/authRedirect";
+import { supabase } from "@/lib/supabaseClient";
+
+const formSchema = z
+  .object({
+    currentPassword: z.string(), // Required unless the session came from a reset link
+    password: z.string().min(8, { // Matches the login and signup forms
+      message: "Password must be at least 8 characters.",
+    }),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Passwords do not match.",
+    path: ["confirmPassword"],
+  });
+
+// "recovery": signed in from a reset link; "signed-in": any other session, which must confirm the current password
+type SessionState = "checking" | "recovery" | "signed-in" | "missing";
+
+// How long after following a reset link the password can be changed without the current one
+const RECOVERY_WINDOW_SECONDS = 15 * 60;
+
+function hasRecentRecoverySignIn(methods: AMREntry[]): boolean {
+  const now = Date.now() / 1000;
+  return methods.some((entry) => entry.method === "recovery" && now - entry.timestamp <= RECOVERY_WINDOW_SECONDS);
+}
+
+export default function UpdatePasswordPage() {
+  const [sessionState, setSessionState] = useState<SessionState>("checking");
+  const [isLoading, setIsLoading] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [email, setEmail] = useState<string | null>(null); // Signed-in user's, to check the current password
+  const router = useRouter();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      currentPassword: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  useEffect(() => {
+    // Links using the implicit flow carry the session in the URL hash instead;
+    // the browser client picks it up and reports PASSWORD_RECOVERY.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "PASSWORD_RECOVERY" && session) setSessionState("recovery");
+    });
+
+    // Sessions from the callback are recognised by the "recovery" sign-in method they carry.
+    Promise.all([supabase.auth.getUser(), supabase.auth.mfa.getAuthenticatorAssuranceLevel()]).then(
+      ([{ data: { user } }, { data: assurance }]) => {
+        setEmail(user?.email ?? null);
+        setSessionState((current) => {
+          if (current === "recovery") return current;
+          if (!user) return "missing";
+          return assurance && hasRecentRecoverySignIn(assurance.currentAuthenticationMethods) ? "recovery" : "signed-in";
+        });
+      }
+    );
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    setAuthError(null);
+    if (sessionState === "signed-in" && !values.currentPassword) {
+      form.setError("currentPassword", { message: "Please enter your current password." });
+      return;
+    }
+    setIsLoading(true);
+
+    if (sessionState === "signed-in") {
+      const { error: currentPasswordError } = await supabase.auth.signInWithPassword({
+        email: email ?? "",
+        password: values.currentPassword,
+      });
+      if (currentPasswordError) {
+        setIsLoading(false);
+        console.error("Supabase current password check error:", currentPasswordError.message);
+        setAuthError(currentPasswordErrorMessage(currentPasswordError));
+        return;
+      }
+    }
+
+    const { data, error } = await supabase.auth.updateUser({ password: values.password });
+    if (error || !data.user) {
+      setIsLoading(false);
+      if (error) console.error("Supabase password update error:", error.message);
+      setAuthError(error ? passwordUpdateErrorMessage(error) : "We could not update your password. Please try again.");
+      return;
+    }
+
+    sonnerToast.success("Password Updated", { description: "You're now logged in with your new password." });
+    router.push(await resolvePostAuthPath(supabase, data.user.id));
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="sticky top-0 z-50 w-full border-b bg-white">
+        <div className="container flex h-16 items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <Users className="h-6 w-6 text-pink-500" />
+            <span className="text-xl font-bold">MentorMatch</span>
+          </Link>
+        </div>
+      </header>
+      <main className="flex-1 bg-gray-50 flex items-center justify-center py-12">
+        <div className="container max-w-md">
+          <Card>
+            <CardHeader className="space-y-1 text-center">
+              <CardTitle className="text-2xl font-bold">Choose a New Password</CardTitle>
+              <CardDescription>
+                {sessionState === "missing"
+                  ? "This reset link is invalid or has expired."
+                  : sessionState === "signed-in"
+                    ? "Enter your current password, then choose a new one."
+                    : "Enter a new password for your account."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {sessionState === "checking" && (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-pink-500" />
+                </div>
+              )}
+              {sessionState === "missing" && (
+                <p className="text-center text-sm text-gray-600">
+                  Request a new link from the login page using &quot;Forgot password?&quot;.
+                </p>
+              )}
+              {(sessionState === "recovery" || sessionState === "signed-in") && (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    {sessionState === "signed-in" && (
+                      <FormField
+                        control={form.control}
+                        name="currentPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Current Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" autoComplete="current-password" placeholder="••••••••" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>New Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" autoComplete="new-password" placeholder="••••••••" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirm New Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" autoComplete="new-password" placeholder="••••••••" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {authError && (
+                      <p className="text-sm font-medium text-destructive">
+                        {authError}
+                      </p>
+                    )}
+                    <Button
+                      type="submit"
+                      className="w-full bg-pink-500 hover:bg-pink-600"
+                      disabled={isLoading}
+                    >
+                      {isLoading ? "Updating..." : "Update Password"}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+            </CardContent>
+            <CardFooter className="flex flex-col items-center">
+              <Link href="/auth/login" className="text-sm text-pink-500 hover:underline">
+                Back to log in
+              </Link>
+            </CardFooter>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
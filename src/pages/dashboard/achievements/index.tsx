@@ -19,8 +19,12 @@ import {
   Trophy,
   Users,
 } from "lucide-react"
+import { DashboardPageProps, withDashboardAuth } from "@/lib/dashboardAuth"
+import { getInitials } from "@/lib/utils"
 
-export default function AchievementsPage() {
+export const getServerSideProps = withDashboardAuth()
+
+export default function AchievementsPage({ profile }: DashboardPageProps) {
   const [activeTab, setActiveTab] = useState("badges")
 
   useEffect(() => {
@@ -193,8 +197,8 @@ export default function AchievementsPage() {
               </Button>
             </Link>
             <Avatar>
-              <AvatarImage src="/placeholder.svg?height=32&width=32" alt="User" />
-              <AvatarFallback>JD</AvatarFallback>
+              <AvatarImage src="/placeholder.svg?height=32&width=32" alt={profile.full_name} />
+              <AvatarFallback>{getInitials(profile.full_name)}</AvatarFallback>
             </Avatar>
           </div>
         </div>
@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { toast as sonnerToast } from "sonner"
+import { Loader2, Plus, Settings, Trash2, Users } from "lucide-react"
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TimeZoneSelect } from "@/components/time-zone-select"
+import {
+  AvailabilityException,
+  getMentorAvailability,
+  MentorAvailability,
+  WeeklyAvailabilityWindow,
+} from "@/lib/availability"
+import { DashboardPageProps, withDashboardAuth } from "@/lib/dashboardAuth"
+import { resolveTimeZone, zonedDateString } from "@/lib/timeZones"
+import { getInitials } from "@/lib/utils"
+
+type AvailabilityPageProps = DashboardPageProps & {
+  availability: MentorAvailability | null
+}
+
+export const getServerSideProps = withDashboardAuth(async (_context, { user, profile, supabase }) => {
+  if (profile.role !== "mentor") {
+    return { redirect: { destination: "/dashboard/meetings", permanent: false } }
+  }
+  return { props: { availability: await getMentorAvailability(supabase, user.id) } }
+})
+
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+const bufferOptions = [0, 5, 10, 15, 30, 45, 60]
+
+export default function AvailabilityPage({ profile, availability }: AvailabilityPageProps) {
+  const [timeZone, setTimeZone] = useState(availability?.timeZone ?? profile.time_zone ?? "UTC")
+  const [bufferMinutes, setBufferMinutes] = useState(availability?.bufferMinutes ?? 0)
+  const [weeklyHours, setWeeklyHours] = useState<WeeklyAvailabilityWindow[]>(availability?.weeklyHours ?? [])
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>(availability?.exceptions ?? [])
+  const [isSaving, setIsSaving] = useState(false)
+
+  // New mentors start in their profile's time zone, or the browser's; only known after hydration
+  useEffect(() => {
+    if (!availability) setTimeZone(resolveTimeZone(profile.time_zone))
+  }, [availability, profile.time_zone])
+
+  const updateWindow = (index: number, changes: Partial<WeeklyAvailabilityWindow>) => {
+    setWeeklyHours((current) => current.map((window, i) => (i === index ? { ...window, ...changes } : window)))
+  }
+
+  const updateException = (index: number, changes: Partial<AvailabilityException>) => {
+    setExceptions((current) => current.map((exception, i) => (i === index ? { ...exception, ...changes } : exception)))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/availability", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timeZone, bufferMinutes, weeklyHours, exceptions }),
+      })
+      const result = await response.json()
+      if (!result.success) {
+        sonnerToast.error("Update Failed", { description: result.error || "Please review your availability and try again." })
+        return
+      }
+      setWeeklyHours(result.data.availability.weeklyHours)
+      setExceptions(result.data.availability.exceptions)
+      sonnerToast.success("Availability Updated", { description: "Your mentees will see the new times when booking." })
+    } catch (error) {
+      console.error("Failed to save availability:", error)
+      sonnerToast.error("Update Error", { description: "An unexpected error occurred. Please try again." })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="sticky top-0 z-50 w-full border-b bg-white">
+        <div className="container mx-auto max-w-7xl px-4 flex h-16 items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Users className="h-6 w-6 text-pink-500" />
+            <span className="text-xl font-bold">MentorMatch</span>
+          </div>
+          <nav className="hidden md:flex items-center justify-center gap-8">
+            <Link href="/dashboard" className="text-sm font-medium hover:text-pink-500">
+              Dashboard
+            </Link>
+            <Link href="/dashboard/meetings" className="text-sm font-medium text-pink-500">
+              Meetings
+            </Link>
+            <Link href="/dashboard/messages" className="text-sm font-medium hover:text-pink-500">
+              Messages
+            </Link>
+            <Link href="/dashboard/notes" className="text-sm font-medium hover:text-pink-500">
+              Notes
+            </Link>
+            <Link href="/dashboard/achievements" className="text-sm font-medium hover:text-pink-500">
+              Achievements
+            </Link>
+          </nav>
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard/settings">
+              <Button variant="ghost" size="icon">
+                <Settings className="h-5 w-5" />
+                <span className="sr-only">Settings</span>
+              </Button>
+            </Link>
+            <Avatar>
+              <AvatarImage src="/placeholder.svg?height=32&width=32" alt={profile.full_name} />
+              <AvatarFallback>{getInitials(profile.full_name)}</AvatarFallback>
+            </Avatar>
+          </div>
+        </div>
+      </header>
+      <main className="flex-1 bg-gray-50">
+        <div className="container mx-auto max-w-3xl px-4 py-6 md:py-12">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold">Availability</h1>
+            <p className="text-gray-500">Choose when your mentees can book meetings with you</p>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Time Zone & Buffer</CardTitle>
+                <CardDescription>Your hours below are in this time zone. Mentees see them in their own.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <Label>Time Zone</Label>
+                  <TimeZoneSelect value={timeZone} onValueChange={setTimeZone} />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Buffer Between Meetings</Label>
+                  <Select value={String(bufferMinutes)} onValueChange={(value) => setBufferMinutes(Number(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {bufferOptions.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {minutes === 0 ? "No buffer" : `${minutes} minutes`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Weekly Hours</CardTitle>
+                <CardDescription>Times you are usually free to meet, every week.</CardDescription>
+              </CardHeader>
+              <CardContent className="divide-y">
+                {weekdays.map((dayName, weekday) => (
+                  <div key={dayName} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-start">
+                    <span className="w-28 pt-2 text-sm font-medium">{dayName}</span>
+                    <div className="flex-1 space-y-2">
+                      {weeklyHours.every((window) => window.weekday !== weekday) && (
+                        <p className="pt-2 text-sm text-gray-500">Unavailable</p>
+                      )}
+                      {weeklyHours.map((window, index) =>
+                        window.weekday === weekday ? (
+                          <div key={index} className="flex items-center gap-2">
+                            <Input
+                              type="time"
+                              value={window.start}
+                              onChange={(e) => updateWindow(index, { start: e.target.value })}
+                              className="w-32"
+                            />
+                            <span className="text-sm text-gray-500">to</span>
+                            <Input
+                              type="time"
+                              value={window.end}
+                              onChange={(e) => updateWindow(index, { end: e.target.value })}
+                              className="w-32"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setWeeklyHours((current) => current.filter((_, i) => i !== index))}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span className="sr-only">Remove hours</span>
+                            </Button>
+                          </div>
+                        ) : null
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setWeeklyHours((current) => [...current, { weekday, start: "09:00", end: "17:00" }])}
+                    >
+                      <Plus className="mr-1 h-4 w-4" /> Add hours
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Exceptions</CardTitle>
+                <CardDescription>Days off, or extra time outside your weekly hours.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {exceptions.length === 0 && <p className="text-sm text-gray-500">No exceptions</p>}
+                {exceptions.map((exception, index) => {
+                  const allDay = !exception.start && !exception.end
+                  return (
+                    <div key={index} className="space-y-3 rounded-lg border p-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Input
+                          type="date"
+                          value={exception.date}
+                          onChange={(e) => updateException(index, { date: e.target.value })}
+                          className="w-40"
+                        />
+                        <Select
+                          value={exception.available ? "available" : "unavailable"}
+                          onValueChange={(value) => updateException(index, { available: value === "available" })}
+                        >
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="unavailable">Unavailable</SelectItem>
+                            <SelectItem value="available">Extra availability</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id={`all-day-${index}`}
+                            checked={allDay}
+                            onCheckedChange={(checked) =>
+                              updateException(index, checked ? { start: null, end: null } : { start: "09:00", end: "17:00" })
+                            }
+                          />
+                          <Label htmlFor={`all-day-${index}`} className="text-sm font-normal">
+                            All day
+                          </Label>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="ml-auto"
+                          onClick={() => setExceptions((current) => current.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Remove exception</span>
+                        </Button>
+                      </div>
+                      {!allDay && (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="time"
+                            value={exception.start ?? ""}
+                            onChange={(e) => updateException(index, { start: e.target.value })}
+                            className="w-32"
+                          />
+                          <span className="text-sm text-gray-500">to</span>
+                          <Input
+                            type="time"
+                            value={exception.end ?? ""}
+                            onChange={(e) => updateException(index, { end: e.target.value })}
+                            className="w-32"
+                          />
+                        </div>
+                      )}
+                      <Input
+                        value={exception.note ?? ""}
+                        onChange={(e) => updateException(index, { note: e.target.value })}
+                        placeholder="Note (optional), e.g. Conference"
+                      />
+                    </div>
+                  )
+                })}
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    setExceptions((current) => [
+                      ...current,
+                      { date: zonedDateString(new Date(), timeZone), available: false },
+                    ])
+                  }
+                >
+                  <Plus className="mr-2 h-4 w-4" /> Add exception
+                </Button>
+              </CardContent>
+              <CardFooter className="flex justify-end pt-6">
+                <Button onClick={handleSave} disabled={isSaving} className="bg-pink-500 hover:bg-pink-600">
+                  {isSaving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</> : "Save Availability"}
+                </Button>
+              </CardFooter>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import Link from "next/link"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
@@ -6,30 +6,62 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Progress } from "@/components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { MatchProfile } from "@/components/match-profile"
+import type { MatchExplanationResponseData } from "@/pages/api/matching/explanation"
 import { Award, Calendar, ChevronRight, Clock, FileText, MessageSquare, PenLine, Settings, Users } from "lucide-react"
+import { DashboardPageProps, withDashboardAuth } from "@/lib/dashboardAuth"
+import { formatMeetingDate, formatMeetingTime, MeetingSummary } from "@/lib/meetings"
+import { resolveTimeZone } from "@/lib/timeZones"
+import { getInitials } from "@/lib/utils"
 
-export default function DashboardPage() {
+export const getServerSideProps = withDashboardAuth()
+
+export default function DashboardPage({ profile }: DashboardPageProps) {
   const [activeTab, setActiveTab] = useState("overview")
 
-  // Mock data for demonstration
-  const matchedMentor = {
-    id: "user-alex-johnson-123",
-    name: "Alex Johnson",
-    role: "Senior Product Manager",
-    bio: "Product leader with 8+ years of experience in tech. Passionate about mentoring the next generation of PMs and helping them navigate career growth.",
-    pronouns: "he/him",
-    company: "Google",
-    avatar: "/placeholder.svg?height=64&width=64",
-    skills: ["Resume Review", "Technical Interviews", "Career Transitions", "Product Management", "Leadership"],
-    matchPercentage: 95,
-    alignmentSummary:
-      "You both share interests in product management and career development. Alex has experience in the areas you're looking to grow in, and you both value work-life balance and continuous learning.",
-  }
+  // The match card shows the partner and "Why you match" from /api/matching/explanation
+  const [match, setMatch] = useState<MatchExplanationResponseData | null>(null)
+  const [matchStatus, setMatchStatus] = useState<"loading" | "ready" | "unmatched" | "error">("loading")
 
-  const upcomingMeetings = [
-    { id: 1, title: "Career Planning Session", date: "May 15, 2025", time: "3:00 PM", partner: "Alex Johnson" },
-    { id: 2, title: "Resume Review", date: "May 20, 2025", time: "4:30 PM", partner: "Alex Johnson" },
-  ]
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/matching/explanation")
+      .then(async (response) => {
+        const result = (await response.json()) as { success: boolean; error?: string; data?: MatchExplanationResponseData }
+        if (cancelled) return
+        if (result.success && result.data) {
+          setMatch(result.data)
+          setMatchStatus("ready")
+        } else {
+          // 404 means no match yet; anything else is a failure worth telling the user about
+          if (response.status !== 404) console.error("Failed to load match explanation:", result.error)
+          setMatchStatus(response.status === 404 ? "unmatched" : "error")
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load match explanation:", error)
+        if (!cancelled) setMatchStatus("error")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const [upcomingMeetings, setUpcomingMeetings] = useState<MeetingSummary[]>([])
+  const timeZone = resolveTimeZone(profile.time_zone)
+
+  useEffect(() => {
+    let cancelled = false
+    const params = new URLSearchParams({ from: new Date().toISOString(), status: "scheduled", limit: "3" })
+    fetch(`/api/meetings?${params}`)
+      .then((response) => response.json() as Promise<{ success: boolean; data?: { meetings: MeetingSummary[] } }>)
+      .then((result) => {
+        if (!cancelled && result.success && result.data) setUpcomingMeetings(result.data.meetings)
+      })
+      .catch((error) => console.error("Failed to load upcoming meetings:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
 
   const recentMessages = [
     { id: 1, sender: "Alex Johnson", message: "Looking forward to our meeting tomorrow!", time: "Yesterday" },
@@ -81,8 +113,8 @@ export default function DashboardPage() {
               </Button>
             </Link>
             <Avatar>
-              <AvatarImage src="/placeholder.svg?height=32&width=32" alt="User" />
-              <AvatarFallback>JD</AvatarFallback>
+              <AvatarImage src="/placeholder.svg?height=32&width=32" alt={profile.full_name} />
+              <AvatarFallback>{getInitials(profile.full_name)}</AvatarFallback>
             </Avatar>
           </div>
         </div>
@@ -92,7 +124,7 @@ export default function DashboardPage() {
           <div className="mb-8 flex items-center justify-between">
             <div>
               <h1 className="text-3xl font-bold">
-                {activeTab === "overview" && "Welcome back, Jordan"}
+                {activeTab === "overview" && `Welcome back, ${profile.full_name.split(" ")[0]}`}
                 {activeTab === "meetings" && "Your Meetings"}
                 {activeTab === "messages" && "Your Messages"}
                 {activeTab === "progress" && "Your Progress"}
@@ -122,11 +154,32 @@ export default function DashboardPage() {
                 <div className="lg:col-span-1">
                   <Card>
                     <CardHeader className="flex flex-row items-center justify-between pb-2">
-                      <CardTitle className="text-lg font-medium">Your Mentor Match</CardTitle>
+                      <CardTitle className="text-lg font-medium">
+                        {profile.role === "mentor" ? "Your Mentee Match" : "Your Mentor Match"}
+                      </CardTitle>
                       <Users className="h-5 w-5 text-pink-500" />
                     </CardHeader>
                     <CardContent>
-                      <MatchProfile user={matchedMentor} />
+                      {matchStatus === "ready" && match ? (
+                        <MatchProfile
+                          user={{
+                            id: match.partner.id,
+                            name: match.partner.name,
+                            role: match.partner.careerStage ?? "",
+                            skills: match.partner.skills,
+                            matchPercentage: match.matchPercentage,
+                            alignmentSummary: match.alignmentSummary,
+                          }}
+                        />
+                      ) : (
+                        <p className="text-sm text-gray-500">
+                          {matchStatus === "loading"
+                            ? "Finding out why you match..."
+                            : matchStatus === "unmatched"
+                              ? "You haven't been matched yet. We'll show your match here once it's ready."
+                              : "We couldn't load your match right now. Please refresh the page to try again."}
+                        </p>
+                      )}
                     </CardContent>
                   </Card>
                 </div>
@@ -145,14 +198,16 @@ export default function DashboardPage() {
                               <p className="font-medium">{meeting.title}</p>
                               <div className="flex items-center gap-2 text-sm text-gray-500">
                                 <Calendar className="h-3.5 w-3.5" />
-                                <span>{meeting.date}</span>
+                                <span>{formatMeetingDate(meeting, timeZone)}</span>
                                 <Clock className="h-3.5 w-3.5 ml-2" />
-                                <span>{meeting.time}</span>
+                                <span>{formatMeetingTime(meeting, timeZone)}</span>
                               </div>
                             </div>
-                            <Button variant="ghost" size="icon">
-                              <ChevronRight className="h-4 w-4" />
-                            </Button>
+                            <Link href="/dashboard/meetings">
+                              <Button variant="ghost" size="icon">
+                                <ChevronRight className="h-4 w-4" />
+                              </Button>
+                            </Link>
                           </div>
                         ))}
                       </div>
@@ -304,6 +359,9 @@ export default function DashboardPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-6">
+                    {upcomingMeetings.length === 0 && (
+                      <p className="text-sm text-gray-500">No upcoming meetings</p>
+                    )}
                     {upcomingMeetings.map((meeting) => (
                       <div key={meeting.id} className="flex items-center justify-between border-b pb-4">
                         <div className="flex items-start gap-4">
@@ -314,20 +372,30 @@ export default function DashboardPage() {
                             <p className="font-medium">{meeting.title}</p>
                             <div className="flex items-center gap-2 text-sm text-gray-500">
                               <Calendar className="h-3.5 w-3.5" />
-                              <span>{meeting.date}</span>
+                              <span>{formatMeetingDate(meeting, timeZone)}</span>
                               <Clock className="h-3.5 w-3.5 ml-2" />
-                              <span>{meeting.time}</span>
+                              <span>{formatMeetingTime(meeting, timeZone)}</span>
                             </div>
-                            <p className="mt-1 text-sm text-gray-500">With {meeting.partner}</p>
+                            <p className="mt-1 text-sm text-gray-500">With {meeting.partner.name}</p>
                           </div>
                         </div>
                         <div className="flex gap-2">
-                          <Button variant="outline" size="sm">
-                            Reschedule
-                          </Button>
-                          <Button size="sm" className="bg-pink-500 hover:bg-pink-600">
-                            Join
-                          </Button>
+                          <Link href="/dashboard/meetings">
+                            <Button variant="outline" size="sm">
+                              Reschedule
+                            </Button>
+                          </Link>
+                          {meeting.conferenceLink ? (
+                            <a href={meeting.conferenceLink} target="_blank" rel="noopener noreferrer">
+                              <Button size="sm" className="bg-pink-500 hover:bg-pink-600">
+                                Join
+                              </Button>
+                            </a>
+                          ) : (
+                            <Button size="sm" className="bg-pink-500 hover:bg-pink-600" disabled>
+                              Join
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -1,9 +1,11 @@
-import { useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import Link from "next/link"
+import { useRouter } from "next/router"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
-import { CalendarIcon, ChevronLeft, ChevronRight, Clock, Plus, Settings, Users } from "lucide-react"
+import { CalendarIcon, Clock, Plus, Repeat, Settings, Users } from "lucide-react"
 import { Calendar } from "@/components/ui/calendar"
+import { calendarRange, CalendarView, MeetingCalendar } from "@/components/meeting-calendar"
 import {
   Dialog,
   DialogContent,
@@ -20,116 +22,386 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
 import { Textarea } from "@/components/ui/textarea"
-import { format } from "date-fns"
+import { addMinutes, format, parseISO } from "date-fns"
+import { BookableSlot, DEFAULT_MEETING_MINUTES, SlotConflict } from "@/lib/availability"
+import { listUserPartners, MatchPartner } from "@/lib/cohorts"
+import { DashboardPageProps, withDashboardAuth } from "@/lib/dashboardAuth"
+import { getCalendarConnectionStatus, GoogleCalendarConnectionStatus } from "@/lib/googleCalendar"
+import { formatClockTime, formatMeetingDate, formatMeetingTime, MeetingSummary } from "@/lib/meetings"
+import { MAX_SERIES_OCCURRENCES, RECURRENCE_FREQUENCIES, recurrenceLabels, RecurrenceFrequency } from "@/lib/meetingSeries"
+import { listPairMeetingTypes, MeetingType, meetingTypesForRole } from "@/lib/meetingTypes"
+import { getSupabaseAdminClient } from "@/lib/supabaseClient"
+import { addDaysToDateString, resolveTimeZone, zonedDateString, zonedTimeToInstant } from "@/lib/timeZones"
+import { getInitials } from "@/lib/utils"
 
-export default function MeetingsPage() {
-  const [date, setDate] = useState<Date | undefined>(new Date())
+type MeetingsPageProps = DashboardPageProps & {
+  calendarConnection: GoogleCalendarConnectionStatus
+  partners: MatchPartner[] // Who the user can meet, latest match first; mentors may have several
+  // Types this user may request with each partner, from the pair's program; keyed "" when unmatched
+  meetingTypesByPartner: Record<string, MeetingType[]>
+}
+
+export const getServerSideProps = withDashboardAuth(async (_context, { user, profile }) => {
+  const supabaseAdmin = getSupabaseAdminClient()
+  const partners = await listUserPartners(supabaseAdmin, user.id)
+  const partnerIds = partners.length > 0 ? partners.map((partner) => partner.id) : [""]
+  const catalogs = await Promise.all(
+    partnerIds.map((partnerId) => listPairMeetingTypes(supabaseAdmin, user.id, partnerId || undefined))
+  )
+  return {
+    props: {
+      calendarConnection: await getCalendarConnectionStatus(supabaseAdmin, user.id),
+      partners,
+      meetingTypesByPartner: Object.fromEntries(
+        partnerIds.map((partnerId, i) => [partnerId, meetingTypesForRole(catalogs[i], profile.role)])
+      ),
+    },
+  }
+})
+
+// Set by /api/auth/google/callback after the consent screen
+const calendarResultMessages: Record<string, string> = {
+  connected: "Google Calendar connected.",
+  denied: "Calendar access was not granted.",
+  error: "We couldn't connect your Google Calendar. Please try again.",
+}
+
+type SlotsResult = {
+  slots: BookableSlot[]
+  availabilityConfigured: boolean
+}
+
+// Meetings from /api/meetings, e.g. { from, to, status }
+async function fetchMeetings(query: Record<string, string>): Promise<MeetingSummary[]> {
+  const response = await fetch(`/api/meetings?${new URLSearchParams(query)}`)
+  const data = await response.json()
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to load meetings')
+  }
+  return data.data.meetings
+}
+
+// Bookable times from /api/availability/slots for [from, to), with `partnerId` if given
+async function fetchBookableSlots(
+  from: Date,
+  to: Date,
+  durationMinutes: number,
+  { partnerId, excludeMeetingId }: { partnerId?: string; excludeMeetingId?: string } = {}
+): Promise<SlotsResult> {
+  const params = new URLSearchParams({
+    from: from.toISOString(),
+    to: to.toISOString(),
+    duration: String(durationMinutes),
+  })
+  if (partnerId) params.set("partnerId", partnerId)
+  if (excludeMeetingId) params.set("excludeMeetingId", excludeMeetingId)
+  const response = await fetch(`/api/availability/slots?${params}`)
+  const data = await response.json()
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to load available times')
+  }
+  return data.data
+}
+
+const UPCOMING_MEETINGS_LIMIT = 10
+
+// Times offered in the scheduling dialog alongside the bookable ones
+const DAY_START_MINUTES = 7 * 60
+const DAY_END_MINUTES = 22 * 60
+const TIME_STEP_MINUTES = 30
+
+export default function MeetingsPage({ profile, calendarConnection, partners, meetingTypesByPartner }: MeetingsPageProps) {
+  const router = useRouter()
+  // Everything is shown on the viewer's clock; the mentor's hours are converted by the slot API
+  const timeZone = resolveTimeZone(profile.time_zone)
+  const [isDisconnecting, setIsDisconnecting] = useState(false)
+  const [date, setDate] = useState<Date | undefined>(() => parseISO(zonedDateString(new Date(), timeZone)))
   const [isNewMeetingOpen, setIsNewMeetingOpen] = useState(false)
   const [selectedTime, setSelectedTime] = useState<string | null>(null)
   const [selectedMeetingType, setSelectedMeetingType] = useState<string | null>(null)
+  const [partnerId, setPartnerId] = useState(partners[0]?.id ?? "")
+  const meetingTypes = meetingTypesByPartner[partnerId] ?? []
   const [showMentorAvailability, setShowMentorAvailability] = useState(true)
-  const [syncWithCalendar, setSyncWithCalendar] = useState(false)
+  const [syncWithCalendar, setSyncWithCalendar] = useState(calendarConnection.connected)
   const [title, setTitle] = useState("")
   const [description, setDescription] = useState("")
+  const [meetings, setMeetings] = useState<MeetingSummary[]>([]) // In the calendar's range
+  const [upcomingMeetings, setUpcomingMeetings] = useState<MeetingSummary[]>([])
+  const [reschedulingMeeting, setReschedulingMeeting] = useState<MeetingSummary | null>(null)
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | "none">("none")
+  const [seriesEnd, setSeriesEnd] = useState<"count" | "until">("count")
+  const [occurrenceCount, setOccurrenceCount] = useState(6)
+  const [untilDate, setUntilDate] = useState("")
+  const [rescheduleScope, setRescheduleScope] = useState<"occurrence" | "following">("occurrence")
+  const [isSaving, setIsSaving] = useState(false)
 
-  // Mock data for demonstration
-  const timeSlots = ["9:00 AM", "10:00 AM", "11:00 AM", "1:00 PM", "2:00 PM", "3:00 PM", "4:00 PM", "5:00 PM"]
-
-  // Mock mentor availability
-  const mentorAvailability = {
-    "9:00 AM": true,
-    "10:00 AM": false,
-    "11:00 AM": true,
-    "1:00 PM": true,
-    "2:00 PM": false,
-    "3:00 PM": true,
-    "4:00 PM": true,
-    "5:00 PM": false,
+  const [daySlots, setDaySlots] = useState<SlotsResult>({ slots: [], availabilityConfigured: false })
+  const [calendarSlots, setCalendarSlots] = useState<BookableSlot[]>([])
+
+  // The calendar shows the month or week around `calendarDate` in the viewer's zone
+  const today = zonedDateString(new Date(), timeZone)
+  const [calendarView, setCalendarView] = useState<CalendarView>("month")
+  const [calendarDate, setCalendarDate] = useState(today)
+  const calendarDays = calendarRange(calendarView, calendarDate)
+  const rangeStartIso = zonedTimeToInstant(calendarDays.start, 0, timeZone).toISOString()
+  const rangeEndIso = zonedTimeToInstant(calendarDays.end, 0, timeZone).toISOString()
+
+  const loadMeetings = useCallback(async () => {
+    try {
+      const [inRange, upcoming] = await Promise.all([
+        fetchMeetings({ from: rangeStartIso, to: rangeEndIso, status: "scheduled,completed" }),
+        fetchMeetings({ from: new Date().toISOString(), status: "scheduled", limit: String(UPCOMING_MEETINGS_LIMIT) }),
+      ])
+      setMeetings(inRange)
+      setUpcomingMeetings(upcoming)
+    } catch (error) {
+      console.error('Failed to load meetings:', error)
+    }
+  }, [rangeStartIso, rangeEndIso])
+
+  // A day is marked available if the shortest meeting type fits in it
+  const shortestMeetingMinutes = meetingTypes.length
+    ? Math.min(...meetingTypes.map((type) => type.durationMinutes))
+    : DEFAULT_MEETING_MINUTES
+
+  // Marked with the partner picked for booking, so the calendar and the dialog show the same pair's times
+  const loadCalendarSlots = useCallback(async () => {
+    try {
+      const { slots } = await fetchBookableSlots(new Date(rangeStartIso), new Date(rangeEndIso), shortestMeetingMinutes, {
+        partnerId: partnerId || undefined,
+      })
+      setCalendarSlots(slots)
+    } catch (error) {
+      console.error('Failed to load mentor availability:', error)
+    }
+  }, [rangeStartIso, rangeEndIso, shortestMeetingMinutes, partnerId])
+
+  useEffect(() => {
+    loadMeetings()
+    loadCalendarSlots()
+  }, [loadMeetings, loadCalendarSlots])
+
+  // New meetings last as long as their type; rescheduling keeps the meeting's length
+  const selectedType = meetingTypes.find((type) => type.id === selectedMeetingType)
+  const meetingMinutes = reschedulingMeeting
+    ? (Date.parse(reschedulingMeeting.end) - Date.parse(reschedulingMeeting.start)) / 60000
+    : selectedType?.durationMinutes ?? DEFAULT_MEETING_MINUTES
+  const reschedulingMeetingId = reschedulingMeeting?.id
+  // Slots take both participants' meetings into account
+  const slotsPartnerId = reschedulingMeeting?.partner.id ?? (partnerId || undefined)
+  // The date picker works in local calendar days; read the picked day as a date in the viewer's zone
+  const selectedDay = date ? format(date, "yyyy-MM-dd") : null
+
+  useEffect(() => {
+    if (!isNewMeetingOpen || !selectedDay) return
+    let cancelled = false
+    const dayStart = zonedTimeToInstant(selectedDay, 0, timeZone)
+    const dayEnd = zonedTimeToInstant(addDaysToDateString(selectedDay, 1), 0, timeZone)
+    fetchBookableSlots(dayStart, dayEnd, meetingMinutes, { partnerId: slotsPartnerId, excludeMeetingId: reschedulingMeetingId })
+      .then((result) => {
+        if (!cancelled) setDaySlots(result)
+      })
+      .catch((error) => console.error('Failed to load available times:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [isNewMeetingOpen, selectedDay, timeZone, meetingMinutes, slotsPartnerId, reschedulingMeetingId])
+
+  // Every half hour of the selected day, plus bookable times that fall outside it
+  const bookableStarts = new Set(daySlots.slots.map((slot) => slot.start))
+  const timeOptions = selectedDay
+    ? [
+        ...new Set([
+          ...Array.from({ length: (DAY_END_MINUTES - DAY_START_MINUTES) / TIME_STEP_MINUTES }, (_, i) =>
+            zonedTimeToInstant(selectedDay, DAY_START_MINUTES + i * TIME_STEP_MINUTES, timeZone).toISOString()
+          ),
+          ...bookableStarts,
+        ]),
+      ].sort()
+    : []
+  // Without any hours set there is nothing to restrict the times to
+  const restrictToAvailability = showMentorAvailability && daySlots.availabilityConfigured
+
+  const disconnectCalendar = async () => {
+    setIsDisconnecting(true)
+    try {
+      const response = await fetch('/api/auth/google', { method: 'DELETE' })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to disconnect Google Calendar')
+      }
+      // Reload the connection status from getServerSideProps
+      router.replace('/dashboard/meetings')
+    } catch (error) {
+      console.error('Failed to disconnect Google Calendar:', error)
+      alert('Failed to disconnect Google Calendar. Please try again.')
+    } finally {
+      setIsDisconnecting(false)
+    }
   }
 
-  const upcomingMeetings = [
-    {
-      id: 1,
-      title: "Career Planning Session",
-      date: "May 15, 2025",
-      time: "3:00 PM - 4:00 PM",
-      partner: "Alex Johnson",
-      description: "Discuss career goals and create an action plan for the next quarter.",
-    },
-    {
-      id: 2,
-      title: "Resume Review",
-      date: "May 20, 2025",
-      time: "4:30 PM - 5:30 PM",
-      partner: "Alex Johnson",
-      description: "Review updated resume and provide feedback on improvements.",
-    },
-  ]
+  // Start the description from the type's agenda unless the user has written their own
+  const selectMeetingType = (typeId: string) => {
+    const nextTemplate = meetingTypes.find((type) => type.id === typeId)?.agendaTemplate ?? ""
+    if (!description.trim() || description === (selectedType?.agendaTemplate ?? "")) {
+      setDescription(nextTemplate)
+    }
+    setSelectedMeetingType(typeId)
+  }
+
+  // Partners matched in another program may have a different catalog
+  const selectPartner = (nextPartnerId: string) => {
+    if (!meetingTypesByPartner[nextPartnerId]?.some((type) => type.id === selectedMeetingType)) {
+      setSelectedMeetingType(null)
+    }
+    setPartnerId(nextPartnerId)
+  }
+
+  const resetMeetingForm = () => {
+    setTitle("")
+    setDescription("")
+    setSelectedTime(null)
+    setSelectedMeetingType(null)
+    setReschedulingMeeting(null)
+    setRepeat("none")
+    setSeriesEnd("count")
+    setOccurrenceCount(6)
+    setUntilDate("")
+    setRescheduleScope("occurrence")
+    setDaySlots({ slots: [], availabilityConfigured: false })
+  }
+
+  // Create or change meetings. Times that clash with other meetings or the mentor's hours
+  // come back as a 409 listing the conflicts, and are only saved if the user confirms.
+  // Returns false if the user backed out; the response may carry a Calendar sync warning.
+  const saveMeeting = async (url: string, method: "POST" | "PATCH", body: Record<string, unknown>) => {
+    const send = async (allowConflicts?: boolean) => {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, allowConflicts }),
+      })
+      return response.json()
+    }
+
+    let data = await send()
+    const conflicts: SlotConflict[] | undefined = data.data?.conflicts
+    if (!data.success && conflicts?.length) {
+      const details = conflicts
+        .map((conflict) =>
+          `${formatMeetingDate(conflict, timeZone)}, ${formatMeetingTime(conflict, timeZone)}: ${
+            conflict.reason === "overlap" ? "clashes with another meeting" : "outside the mentor's hours"
+          }`
+        )
+        .join("\n")
+      if (!confirm(`${data.error}\n\n${details}\n\nSchedule anyway?`)) return false
+      data = await send(true)
+    }
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to save meeting')
+    }
+    // The change is saved even if Google Calendar sync failed
+    if (data.data.calendarError) {
+      alert(data.data.calendarError)
+    }
+    await Promise.all([loadMeetings(), loadCalendarSlots()])
+    return true
+  }
+
+  const updateMeeting = (meetingId: string, body: Record<string, string>) =>
+    saveMeeting(`/api/meetings/${meetingId}`, "PATCH", body)
+
+  const handleCancelMeeting = async (meeting: MeetingSummary, scope: "occurrence" | "following" = "occurrence") => {
+    const question = scope === "following"
+      ? `Cancel "${meeting.title}" with ${meeting.partner.name} on ${formatMeetingDate(meeting, timeZone)} and every later meeting in the series?`
+      : `Cancel "${meeting.title}" with ${meeting.partner.name}?`
+    if (!confirm(question)) return
+    try {
+      await updateMeeting(meeting.id, { action: 'cancel', scope })
+    } catch (error) {
+      console.error('Failed to cancel meeting:', error)
+      alert(error instanceof Error ? error.message : 'Failed to cancel the meeting. Please try again.')
+    }
+  }
 
-  const meetingTypes = [
-    { id: "career-planning", name: "Career Planning" },
-    { id: "resume-review", name: "Resume Review" },
-    { id: "interview-prep", name: "Interview Preparation" },
-    { id: "skill-development", name: "Skill Development" },
-    { id: "general-advice", name: "General Advice" },
-    { id: "other", name: "Other" },
-  ]
+  const handleSkipMeeting = async (meeting: MeetingSummary) => {
+    if (!confirm(`Skip "${meeting.title}" on ${formatMeetingDate(meeting, timeZone)}? The rest of the series stays as planned.`)) return
+    try {
+      await updateMeeting(meeting.id, { action: 'skip' })
+    } catch (error) {
+      console.error('Failed to skip meeting:', error)
+      alert(error instanceof Error ? error.message : 'Failed to skip the meeting. Please try again.')
+    }
+  }
+
+  const handleCompleteMeeting = async (meeting: MeetingSummary) => {
+    try {
+      await updateMeeting(meeting.id, { action: 'complete' })
+    } catch (error) {
+      console.error('Failed to complete meeting:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update the meeting. Please try again.')
+    }
+  }
+
+  const openBooking = (day: string) => {
+    resetMeetingForm()
+    setDate(parseISO(day))
+    setIsNewMeetingOpen(true)
+  }
+
+  const openReschedule = (meeting: MeetingSummary) => {
+    setReschedulingMeeting(meeting)
+    setDate(parseISO(zonedDateString(new Date(meeting.start), timeZone)))
+    setSelectedTime(null)
+    setIsNewMeetingOpen(true)
+  }
 
   const handleScheduleMeeting = async () => {
-    if (!date || !selectedTime || !title || !selectedMeetingType) {
+    if (!date || !selectedTime || (!reschedulingMeeting && (!title || !selectedMeetingType))) {
       // Show error message
       alert("Please fill in all required fields.")
       return
     }
-
-    // Parse the selected date and time
-    const [hours, minutes] = selectedTime.replace(/[APM]/g, '').trim().split(':')
-    let hour = parseInt(hours)
-    if (selectedTime.includes('PM') && hour !== 12) {
-      hour += 12
-    } else if (selectedTime.includes('AM') && hour === 12) {
-      hour = 0
+    if (!reschedulingMeeting && repeat !== "none" && seriesEnd === "until" && !untilDate) {
+      alert("Please choose when the series ends.")
+      return
     }
 
-    const startDate = new Date(date)
-    startDate.setHours(hour, parseInt(minutes), 0)
-    
-    const endDate = new Date(startDate)
-    endDate.setHours(startDate.getHours() + 1) // 1 hour meeting
-
-    if (syncWithCalendar) {
-      try {
-        const response = await fetch('/api/calendar/test', {
-          method: 'GET'
-        });
-
-        const data = await response.json();
-        if (!data.success) {
-          throw new Error(data.error || 'Failed to sync with calendar');
-        }
-
-        // Show success message
-        alert('Meeting synced with Google Calendar! Check your calendar for details.');
-      } catch (error) {
-        console.error('Failed to sync with Google Calendar:', error);
-        alert('Failed to sync with Google Calendar. Please try again.');
-      }
+    // Time options are ISO instants on the selected day
+    const times = {
+      start: selectedTime,
+      end: addMinutes(new Date(selectedTime), meetingMinutes).toISOString(),
+      timeZone,
     }
 
-    setIsNewMeetingOpen(false);
-    // Add meeting to local state
-    const newMeeting = {
-      id: upcomingMeetings.length + 1,
-      title,
-      type: meetingTypes.find((type) => type.id === selectedMeetingType)?.name || 'Other',
-      date: format(date, 'MMM d, yyyy'),
-      time: `${selectedTime} - ${format(endDate, 'h:mm a')}`,
-      partner: "Alex Johnson", // This would come from your actual mentor/mentee data
-      description: description || 'No description provided',
-    };
-    
-    // In a real app, you'd update this in a database
-    upcomingMeetings.push(newMeeting);
+    setIsSaving(true)
+    try {
+      const saved = reschedulingMeeting
+        ? await updateMeeting(reschedulingMeeting.id, {
+            action: 'reschedule',
+            scope: reschedulingMeeting.series ? rescheduleScope : "occurrence",
+            ...times,
+          })
+        : await saveMeeting('/api/meetings', "POST", {
+            partnerId: partnerId || undefined,
+            title,
+            description: description || undefined,
+            meetingTypeId: selectedMeetingType,
+            syncWithCalendar,
+            recurrence: repeat === "none"
+              ? undefined
+              : { frequency: repeat, ...(seriesEnd === "count" ? { count: occurrenceCount } : { until: untilDate }) },
+            ...times,
+          })
+      if (!saved) return
+      setIsNewMeetingOpen(false)
+      resetMeetingForm()
+    } catch (error) {
+      console.error('Failed to save meeting:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save the meeting. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   return (
@@ -165,8 +437,8 @@ export default function MeetingsPage() {
               </Button>
             </Link>
             <Avatar>
-              <AvatarImage src="/placeholder.svg?height=32&width=32" alt="User" />
-              <AvatarFallback>JD</AvatarFallback>
+              <AvatarImage src="/placeholder.svg?height=32&width=32" alt={profile.full_name} />
+              <AvatarFallback>{getInitials(profile.full_name)}</AvatarFallback>
             </Avatar>
           </div>
         </div>
@@ -178,7 +450,13 @@ export default function MeetingsPage() {
               <h1 className="text-3xl font-bold">Meeting Scheduler</h1>
               <p className="text-gray-500">Plan and manage your mentorship sessions</p>
             </div>
-            <Dialog open={isNewMeetingOpen} onOpenChange={setIsNewMeetingOpen}>
+            <Dialog
+              open={isNewMeetingOpen}
+              onOpenChange={(open) => {
+                setIsNewMeetingOpen(open)
+                if (!open) resetMeetingForm()
+              }}
+            >
               <DialogTrigger asChild>
                 <Button className="bg-pink-500 hover:bg-pink-600">
                   <Plus className="mr-2 h-4 w-4" /> Schedule Meeting
@@ -186,37 +464,61 @@ export default function MeetingsPage() {
               </DialogTrigger>
               <DialogContent className="sm:max-w-[525px]">
                 <DialogHeader>
-                  <DialogTitle>Schedule a New Meeting</DialogTitle>
+                  <DialogTitle>{reschedulingMeeting ? "Reschedule Meeting" : "Schedule a New Meeting"}</DialogTitle>
                   <DialogDescription>
-                    Fill in the details below to schedule a meeting with your mentor/mentee.
+                    {reschedulingMeeting
+                      ? `Pick a new date and time for "${reschedulingMeeting.title}" with ${reschedulingMeeting.partner.name}.`
+                      : "Fill in the details below to schedule a meeting with your mentor/mentee."}
                   </DialogDescription>
                 </DialogHeader>
                 <div className="grid gap-4 py-4">
-                  <div className="grid gap-2">
-                    <Label htmlFor="meeting-type">Meeting Type</Label>
-                    <Select onValueChange={setSelectedMeetingType}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select meeting type" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {meetingTypes.map((type) => (
-                          <SelectItem key={type.id} value={type.id}>
-                            {type.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {!reschedulingMeeting && (
+                    <>
+                      {partners.length > 1 && (
+                        <div className="grid gap-2">
+                          <Label>Meet With</Label>
+                          <Select value={partnerId} onValueChange={selectPartner}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select mentee" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {partners.map((partner) => (
+                                <SelectItem key={partner.id} value={partner.id}>
+                                  {partner.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
 
-                  <div className="grid gap-2">
-                    <Label htmlFor="title">Meeting Title</Label>
-                    <Input
-                      id="title"
-                      value={title}
-                      onChange={(e) => setTitle(e.target.value)}
-                      placeholder="e.g., Career Planning Session"
-                    />
-                  </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="meeting-type">Meeting Type</Label>
+                        <Select value={selectedMeetingType ?? ""} onValueChange={selectMeetingType}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select meeting type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {meetingTypes.map((type) => (
+                              <SelectItem key={type.id} value={type.id}>
+                                {type.name} ({type.durationMinutes} min)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="grid gap-2">
+                        <Label htmlFor="title">Meeting Title</Label>
+                        <Input
+                          id="title"
+                          value={title}
+                          onChange={(e) => setTitle(e.target.value)}
+                          placeholder="e.g., Career Planning Session"
+                        />
+                      </div>
+                    </>
+                  )}
 
                   <div className="grid grid-cols-2 gap-4">
                     <div className="grid gap-2">
@@ -229,7 +531,15 @@ export default function MeetingsPage() {
                           </Button>
                         </PopoverTrigger>
                         <PopoverContent className="w-auto p-0">
-                          <Calendar mode="single" selected={date} onSelect={setDate} initialFocus />
+                          <Calendar
+                            mode="single"
+                            selected={date}
+                            onSelect={(day) => {
+                              setDate(day)
+                              setSelectedTime(null)
+                            }}
+                            initialFocus
+                          />
                         </PopoverContent>
                       </Popover>
                     </div>
@@ -247,24 +557,22 @@ export default function MeetingsPage() {
                           />
                         </div>
                       </div>
-                      <Select onValueChange={setSelectedTime}>
+                      <Select value={selectedTime ?? ""} onValueChange={setSelectedTime}>
                         <SelectTrigger>
                           <SelectValue placeholder="Select time" />
                         </SelectTrigger>
                         <SelectContent>
-                          {timeSlots.map((time) => (
+                          {timeOptions.map((time) => (
                             <SelectItem
                               key={time}
                               value={time}
-                              disabled={
-                                showMentorAvailability && !mentorAvailability[time as keyof typeof mentorAvailability]
-                              }
+                              disabled={restrictToAvailability && !bookableStarts.has(time)}
                             >
                               <div className="flex items-center gap-2">
-                                <span>{time}</span>
-                                {showMentorAvailability && (
+                                <span>{formatClockTime(time, timeZone)}</span>
+                                {restrictToAvailability && (
                                   <span
-                                    className={`h-2 w-2 rounded-full ${mentorAvailability[time as keyof typeof mentorAvailability] ? "bg-green-500" : "bg-red-500"}`}
+                                    className={`h-2 w-2 rounded-full ${bookableStarts.has(time) ? "bg-green-500" : "bg-red-500"}`}
                                   ></span>
                                 )}
                               </div>
@@ -272,50 +580,138 @@ export default function MeetingsPage() {
                           ))}
                         </SelectContent>
                       </Select>
+                      <p className="text-xs text-gray-500">
+                        {meetingMinutes}-minute meeting. Times are shown in {timeZone.replace(/_/g, " ")}.
+                      </p>
+                      {showMentorAvailability && !daySlots.availabilityConfigured && (
+                        <p className="text-xs text-gray-500">Your mentor hasn&apos;t shared their availability yet.</p>
+                      )}
                     </div>
                   </div>
 
-                  <div className="grid gap-2">
-                    <Label htmlFor="description">Meeting Description</Label>
-                    <Textarea
-                      id="description"
-                      value={description}
-                      onChange={(e) => setDescription(e.target.value)}
-                      placeholder="What would you like to discuss in this meeting?"
-                      className="min-h-[80px]"
-                    />
-                  </div>
+                  {reschedulingMeeting?.series && (
+                    <div className="grid gap-2">
+                      <Label>Apply To</Label>
+                      <Select
+                        value={rescheduleScope}
+                        onValueChange={(value) => setRescheduleScope(value as "occurrence" | "following")}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="occurrence">This meeting only</SelectItem>
+                          <SelectItem value="following">This and following meetings</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
 
-                  <div className="flex items-center space-x-2">
-                    <Switch 
-                      id="sync-calendar"
-                      checked={syncWithCalendar}
-                      onCheckedChange={setSyncWithCalendar}
-                    />
-                    <Label htmlFor="sync-calendar">Sync with Google Calendar</Label>
-                  </div>
+                  {!reschedulingMeeting && (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                          <Label>Repeat</Label>
+                          <Select value={repeat} onValueChange={(value) => setRepeat(value as RecurrenceFrequency | "none")}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Does not repeat</SelectItem>
+                              {RECURRENCE_FREQUENCIES.map((frequency) => (
+                                <SelectItem key={frequency} value={frequency}>
+                                  {recurrenceLabels[frequency]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {repeat !== "none" && (
+                          <div className="grid gap-2">
+                            <Label>Ends</Label>
+                            <div className="flex gap-2">
+                              <Select value={seriesEnd} onValueChange={(value) => setSeriesEnd(value as "count" | "until")}>
+                                <SelectTrigger className="w-24">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="count">After</SelectItem>
+                                  <SelectItem value="until">On</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              {seriesEnd === "count" ? (
+                                <Input
+                                  type="number"
+                                  min={2}
+                                  max={MAX_SERIES_OCCURRENCES}
+                                  value={occurrenceCount}
+                                  onChange={(e) => setOccurrenceCount(Number(e.target.value))}
+                                  aria-label="Number of meetings"
+                                />
+                              ) : (
+                                <Input
+                                  type="date"
+                                  min={selectedDay ?? undefined}
+                                  value={untilDate}
+                                  onChange={(e) => setUntilDate(e.target.value)}
+                                  aria-label="Last meeting date"
+                                />
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Switch id="reminders" defaultChecked />
-                    <Label htmlFor="reminders">Send reminders</Label>
-                  </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="description">Meeting Description</Label>
+                        <Textarea
+                          id="description"
+                          value={description}
+                          onChange={(e) => setDescription(e.target.value)}
+                          placeholder="What would you like to discuss in this meeting?"
+                          className="min-h-[80px]"
+                        />
+                      </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Switch id="email-reminder" defaultChecked />
-                    <Label htmlFor="email-reminder">Email reminder (24 hours before)</Label>
-                  </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch 
+                          id="sync-calendar"
+                          checked={syncWithCalendar}
+                          onCheckedChange={setSyncWithCalendar}
+                          disabled={!calendarConnection.connected} // Connect from the "Sync with Calendar" card first
+                        />
+                        <Label htmlFor="sync-calendar">Sync with Google Calendar</Label>
+                      </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Switch id="text-reminder" />
-                    <Label htmlFor="text-reminder">Text reminder (1 hour before)</Label>
-                  </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch id="reminders" defaultChecked />
+                        <Label htmlFor="reminders">Send reminders</Label>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <Switch id="email-reminder" defaultChecked />
+                        <Label htmlFor="email-reminder">Email reminder (24 hours before)</Label>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <Switch id="text-reminder" />
+                        <Label htmlFor="text-reminder">Text reminder (1 hour before)</Label>
+                      </div>
+                    </>
+                  )}
                 </div>
                 <DialogFooter>
-                  <Button variant="outline" onClick={() => setIsNewMeetingOpen(false)}>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setIsNewMeetingOpen(false)
+                      resetMeetingForm()
+                    }}
+                  >
                     Cancel
                   </Button>
-                  <Button className="bg-pink-500 hover:bg-pink-600" onClick={handleScheduleMeeting}>
-                    Schedule Meeting
+                  <Button className="bg-pink-500 hover:bg-pink-600" onClick={handleScheduleMeeting} disabled={isSaving}>
+                    {isSaving ? "Saving..." : reschedulingMeeting ? "Reschedule Meeting" : "Schedule Meeting"}
                   </Button>
                 </DialogFooter>
               </DialogContent>
@@ -324,74 +720,17 @@ export default function MeetingsPage() {
 
           <div className="grid gap-6 lg:grid-cols-3">
             <div className="lg:col-span-2">
-              <div className="rounded-lg border bg-white shadow-sm">
-                <div className="flex items-center justify-between border-b p-4">
-                  <h2 className="text-lg font-medium">Calendar</h2>
-                  <div className="flex items-center gap-2">
-                    <Button variant="outline" size="icon">
-                      <ChevronLeft className="h-4 w-4" />
-                    </Button>
-                    <span className="text-sm font-medium">May 2025</span>
-                    <Button variant="outline" size="icon">
-                      <ChevronRight className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-                <div className="p-4">
-                  <div className="grid grid-cols-7 gap-px bg-gray-200">
-                    {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day) => (
-                      <div key={day} className="bg-white p-2 text-center text-sm font-medium">
-                        {day}
-                      </div>
-                    ))}
-                    {Array.from({ length: 35 }).map((_, i) => {
-                      const day = i - 3 + 1 // Adjust for May 2025 starting on a Thursday
-                      const isCurrentMonth = day > 0 && day <= 31
-                      const isToday = day === 15 // Assuming today is May 15
-                      const hasMeeting = day === 15 || day === 20 // Meetings on May 15 and 20
-
-                      // Highlight mentor availability
-                      const mentorAvailable = [5, 6, 12, 13, 19, 20, 26, 27].includes(day)
-
-                      return (
-                        <div
-                          key={i}
-                          className={`relative min-h-[80px] bg-white p-1 ${
-                            !isCurrentMonth ? "text-gray-300" : ""
-                          } ${isToday ? "bg-pink-50" : ""} ${mentorAvailable && isCurrentMonth ? "bg-green-50" : ""}`}
-                        >
-                          <div className="flex justify-between">
-                            <span className="text-sm">{isCurrentMonth ? day : ""}</span>
-                            {hasMeeting && isCurrentMonth && (
-                              <span className="flex h-5 w-5 items-center justify-center rounded-full bg-pink-500 text-xs text-white">
-                                {day === 15 ? "1" : day === 20 ? "1" : ""}
-                              </span>
-                            )}
-                          </div>
-                          {hasMeeting && isCurrentMonth && (
-                            <div className="mt-1 rounded bg-pink-100 p-1 text-xs text-pink-800">
-                              {day === 15 ? "3:00 PM - Career Planning" : day === 20 ? "4:30 PM - Resume Review" : ""}
-                            </div>
-                          )}
-                          {mentorAvailable && isCurrentMonth && !hasMeeting && (
-                            <div className="mt-1 rounded bg-green-100 p-1 text-xs text-green-800">Mentor Available</div>
-                          )}
-                        </div>
-                      )
-                    })}
-                  </div>
-                </div>
-                <div className="border-t p-3 flex items-center gap-4 text-sm">
-                  <div className="flex items-center gap-1">
-                    <div className="h-3 w-3 rounded-full bg-pink-500"></div>
-                    <span>Your Meetings</span>
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <div className="h-3 w-3 rounded-full bg-green-500"></div>
-                    <span>Mentor Availability</span>
-                  </div>
-                </div>
-              </div>
+              <MeetingCalendar
+                view={calendarView}
+                anchorDate={calendarDate}
+                today={today}
+                timeZone={timeZone}
+                meetings={meetings}
+                availableSlots={calendarSlots}
+                onViewChange={setCalendarView}
+                onAnchorDateChange={setCalendarDate}
+                onBookDay={openBooking}
+              />
             </div>
 
             <div>
@@ -400,6 +739,9 @@ export default function MeetingsPage() {
                   <h2 className="text-lg font-medium">Upcoming Meetings</h2>
                 </div>
                 <div className="divide-y">
+                  {upcomingMeetings.length === 0 && (
+                    <p className="p-4 text-sm text-gray-500">No upcoming meetings</p>
+                  )}
                   {upcomingMeetings.map((meeting) => (
                     <div key={meeting.id} className="p-4">
                       <div className="mb-2 flex items-center justify-between">
@@ -426,32 +768,64 @@ export default function MeetingsPage() {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            <DropdownMenuItem>Edit Meeting</DropdownMenuItem>
-                            <DropdownMenuItem>Reschedule</DropdownMenuItem>
-                            <DropdownMenuItem className="text-red-500">Cancel Meeting</DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => openReschedule(meeting)}>Reschedule</DropdownMenuItem>
+                            {new Date(meeting.start).getTime() <= Date.now() && (
+                              <DropdownMenuItem onClick={() => handleCompleteMeeting(meeting)}>Mark as Complete</DropdownMenuItem>
+                            )}
+                            {meeting.series && (
+                              <DropdownMenuItem onClick={() => handleSkipMeeting(meeting)}>Skip This Meeting</DropdownMenuItem>
+                            )}
+                            <DropdownMenuItem className="text-red-500" onClick={() => handleCancelMeeting(meeting)}>
+                              Cancel Meeting
+                            </DropdownMenuItem>
+                            {meeting.series && (
+                              <DropdownMenuItem className="text-red-500" onClick={() => handleCancelMeeting(meeting, "following")}>
+                                Cancel This and Following
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </div>
                       <div className="mb-2 flex items-center gap-2 text-sm text-gray-500">
                         <CalendarIcon className="h-3.5 w-3.5" />
-                        <span>{meeting.date}</span>
+                        <span>{formatMeetingDate(meeting, timeZone)}</span>
                         <Clock className="ml-2 h-3.5 w-3.5" />
-                        <span>{meeting.time}</span>
+                        <span>{formatMeetingTime(meeting, timeZone)}</span>
+                        {meeting.series && (
+                          <>
+                            <Repeat className="ml-2 h-3.5 w-3.5" />
+                            <span>{recurrenceLabels[meeting.series.frequency]}</span>
+                          </>
+                        )}
                       </div>
                       <div className="mb-3 flex items-center gap-2">
                         <Avatar className="h-6 w-6">
-                          <AvatarFallback>AJ</AvatarFallback>
+                          <AvatarFallback>{getInitials(meeting.partner.name)}</AvatarFallback>
                         </Avatar>
-                        <span className="text-sm">With {meeting.partner}</span>
+                        <span className="text-sm">With {meeting.partner.name}</span>
                       </div>
-                      <p className="text-sm text-gray-500">{meeting.description}</p>
+                      {meeting.partner.timeZone && meeting.partner.timeZone !== timeZone && (
+                        <p className="mb-2 text-xs text-gray-500">
+                          {formatMeetingTime(meeting, meeting.partner.timeZone)} for {meeting.partner.name} (
+                          {meeting.partner.timeZone.replace(/_/g, " ")})
+                        </p>
+                      )}
+                      <p className="text-sm text-gray-500">{meeting.description || "No description provided"}</p>
                       <div className="mt-3 flex gap-2">
-                        <Button variant="outline" size="sm">
+                        <Button variant="outline" size="sm" onClick={() => openReschedule(meeting)}>
                           Reschedule
                         </Button>
-                        <Button size="sm" className="bg-pink-500 hover:bg-pink-600">
-                          Join Meeting
-                        </Button>
+                        {meeting.conferenceLink ? (
+                          <a href={meeting.conferenceLink} target="_blank" rel="noopener noreferrer">
+                            <Button size="sm" className="bg-pink-500 hover:bg-pink-600">
+                              Join Meeting
+                            </Button>
+                          </a>
+                        ) : (
+                          <Button size="sm" className="bg-pink-500 hover:bg-pink-600" disabled>
+                            Join Meeting
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -463,35 +837,71 @@ export default function MeetingsPage() {
                 </div>
               </div>
 
+              {profile.role === "mentor" && (
+                <div className="mt-6 rounded-lg border bg-white p-4 shadow-sm">
+                  <h3 className="mb-2 font-medium">Your Availability</h3>
+                  <p className="mb-4 text-sm text-gray-500">
+                    Set the weekly hours your mentees can book, plus any days off or extra time.
+                  </p>
+                  <Link href="/dashboard/availability">
+                    <Button variant="outline" className="w-full">
+                      Manage Availability
+                    </Button>
+                  </Link>
+                </div>
+              )}
+
               <div className="mt-6 rounded-lg border bg-white p-4 shadow-sm">
                 <h3 className="mb-2 font-medium">Sync with Calendar</h3>
-                <p className="mb-4 text-sm text-gray-500">
-                  Connect your Google Calendar to automatically sync your mentorship meetings.
-                </p>
-                <Button 
-                  variant="outline" 
-                  className="w-full"
-                  onClick={() => window.location.href = '/api/auth/google'}
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="24"
-                    height="24"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="mr-2 h-4 w-4"
-                  >
-                    <rect width="18" height="18" x="3" y="4" rx="2" ry="2" />
-                    <line x1="16" x2="16" y1="2" y2="6" />
-                    <line x1="8" x2="8" y1="2" y2="6" />
-                    <line x1="3" x2="21" y1="10" y2="10" />
-                  </svg>
-                  Connect Google Calendar
-                </Button>
+                {typeof router.query.calendar === "string" && calendarResultMessages[router.query.calendar] && (
+                  <p className="mb-2 text-sm font-medium">{calendarResultMessages[router.query.calendar]}</p>
+                )}
+                {calendarConnection.connected ? (
+                  <>
+                    <p className="mb-4 text-sm text-gray-500">
+                      Connected{calendarConnection.googleEmail ? ` as ${calendarConnection.googleEmail}` : ""}. Your
+                      mentorship meetings can be added to your Google Calendar.
+                    </p>
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={isDisconnecting}
+                      onClick={disconnectCalendar}
+                    >
+                      {isDisconnecting ? "Disconnecting..." : "Disconnect Google Calendar"}
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <p className="mb-4 text-sm text-gray-500">
+                      Connect your Google Calendar to automatically sync your mentorship meetings.
+                    </p>
+                    <Button 
+                      variant="outline" 
+                      className="w-full"
+                      onClick={() => window.location.href = '/api/auth/google'}
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="24"
+                        height="24"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        className="mr-2 h-4 w-4"
+                      >
+                        <rect width="18" height="18" x="3" y="4" rx="2" ry="2" />
+                        <line x1="16" x2="16" y1="2" y2="6" />
+                        <line x1="8" x2="8" y1="2" y2="6" />
+                        <line x1="3" x2="21" y1="10" y2="10" />
+                      </svg>
+                      Connect Google Calendar
+                    </Button>
+                  </>
+                )}
               </div>
 
               <div className="mt-6 rounded-lg border bg-white p-4 shadow-sm">
@@ -20,8 +20,12 @@ import {
   Smile,
   Users,
 } from "lucide-react"
+import { DashboardPageProps, withDashboardAuth } from "@/lib/dashboardAuth"
+import { getInitials } from "@/lib/utils"
 
-export default function MessagesPage() {
+export const getServerSideProps = withDashboardAuth()
+
+export default function MessagesPage({ profile }: DashboardPageProps) {
   const [activeTab, setActiveTab] = useState("conversations")
   const [selectedConversation, setSelectedConversation] = useState<number | null>(1) // Default to first conversation
   const [messageText, setMessageText] = useState("")
@@ -246,8 +250,8 @@ export default function MessagesPage() {
               </Button>
             </Link>
             <Avatar>
-              <AvatarImage src="/placeholder.svg?height=32&width=32" alt="User" />
-              <AvatarFallback>JD</AvatarFallback>
+              <AvatarImage src="/placeholder.svg?height=32&width=32" alt={profile.full_name} />
+              <AvatarFallback>{getInitials(profile.full_name)}</AvatarFallback>
             </Avatar>
           </div>
         </div>
@@ -7,6 +7,8 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { Calendar, Check, ChevronRight, Edit, FileText, PenLine, Plus, Search, Settings, Users } from "lucide-react";
+import { DashboardPageProps, withDashboardAuth } from "@/lib/dashboardAuth";
+import { getInitials } from "@/lib/utils";
 
 interface MeetingNote {
   id: number;
@@ -29,7 +31,9 @@ interface JournalEntry {
 // This is the type that was previously unused
 type Note = MeetingNote | JournalEntry;
 
-export default function NotesPage() {
+export const getServerSideProps = withDashboardAuth();
+
+export default function NotesPage({ profile }: DashboardPageProps) {
   const [activeTab, setActiveTab] = useState("meeting-notes");
   const [selectedNote, setSelectedNote] = useState<number | null>(null);
   const [isEditing, setIsEditing] = useState(false);
@@ -156,8 +160,8 @@ export default function NotesPage() {
               </Button>
             </Link>
             <Avatar>
-              <AvatarImage src="/placeholder.svg?height=32&width=32" alt="User" />
-              <AvatarFallback>JD</AvatarFallback>
+              <AvatarImage src="/placeholder.svg?height=32&width=32" alt={profile.full_name} />
+              <AvatarFallback>{getInitials(profile.full_name)}</AvatarFallback>
             </Avatar>
           </div>
         </div>
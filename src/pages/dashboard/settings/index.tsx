@@ -0,0 +1,347 @@
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Control, useForm } from "react-hook-form"
+import { toast as sonnerToast } from "sonner"
+import { AlertCircle, Loader2, Settings, Users } from "lucide-react"
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { TimeZoneSelect } from "@/components/time-zone-select"
+import {
+  careerStageOptions,
+  helpAreasData,
+  industriesData,
+  languagesData,
+  MAX_MENTEE_CAPACITY,
+  meetingCadenceOptions,
+  OnboardingData,
+  onboardingDataSchema,
+  onboardingFormSchema,
+  OnboardingFormValues,
+  rowToOnboardingData,
+  SelectableItem,
+} from "@/lib/onboardingSchema"
+import { DashboardPageProps, withDashboardAuth } from "@/lib/dashboardAuth"
+import { localTimeZone } from "@/lib/timeZones"
+import { getInitials } from "@/lib/utils"
+
+type CheckboxGroupName = "industries" | "languages" | "helpAreas" | "preferredMenteeStages"
+
+interface CheckboxGroupFieldProps {
+  control: Control<OnboardingFormValues>
+  name: CheckboxGroupName
+  label: string
+  description: string
+  items: SelectableItem[]
+}
+
+function CheckboxGroupField({ control, name, label, description, items }: CheckboxGroupFieldProps) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="mb-2">
+            <FormLabel className="text-base font-semibold">{label}</FormLabel>
+            <FormDescription>{description}</FormDescription>
+          </div>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-3">
+            {items.map((item) => (
+              <FormItem key={item.id} className="flex items-center space-x-2 space-y-0">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value?.includes(item.id)}
+                    onCheckedChange={(checked) =>
+                      field.onChange(
+                        checked ? [...(field.value || []), item.id] : (field.value || []).filter((id) => id !== item.id)
+                      )
+                    }
+                  />
+                </FormControl>
+                <FormLabel className="text-sm font-normal cursor-pointer">{item.label}</FormLabel>
+              </FormItem>
+            ))}
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+// Form state holds both roles' fields; the ones for the other role keep these defaults.
+function toFormValues(data: OnboardingData): OnboardingFormValues {
+  return {
+    shortTermGoals: "",
+    longTermGoals: "",
+    menteeCapacity: 1,
+    meetingCadence: undefined,
+    expertise: "",
+    whyMentor: "",
+    preferredMenteeStages: [],
+    ...data,
+  }
+}
+
+export const getServerSideProps = withDashboardAuth()
+
+export default function SettingsPage({ profile }: DashboardPageProps) {
+  const [isSaving, setIsSaving] = useState(false)
+  const [matchesMayHaveChanged, setMatchesMayHaveChanged] = useState(false)
+
+  const form = useForm<OnboardingFormValues>({
+    resolver: zodResolver(onboardingFormSchema),
+    defaultValues: toFormValues(rowToOnboardingData(profile)),
+    mode: "onTouched",
+  })
+  const role = form.watch("role")
+
+  // Profiles from before time zones were collected start with the browser's zone
+  useEffect(() => {
+    if (!form.getValues("timeZone")) {
+      form.setValue("timeZone", localTimeZone(), { shouldDirty: true })
+    }
+  }, [form])
+
+  async function onSubmit(values: OnboardingFormValues) {
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(onboardingDataSchema.parse(values)),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        sonnerToast.error("Update Failed", { description: result.error || "Please review your information and try again." })
+        return
+      }
+      form.reset(toFormValues(result.data.form))
+      if (result.data.matchesMayHaveChanged) setMatchesMayHaveChanged(true)
+      sonnerToast.success("Profile Updated", {
+        description: result.data.matchesMayHaveChanged
+          ? "Your matches may have changed based on your updated profile."
+          : result.message,
+      })
+    } catch (error) {
+      console.error("Error updating profile:", error)
+      sonnerToast.error("Update Error", { description: "An unexpected error occurred. Please try again." })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="sticky top-0 z-50 w-full border-b bg-white">
+        <div className="container mx-auto max-w-7xl px-4 flex h-16 items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Users className="h-6 w-6 text-pink-500" />
+            <span className="text-xl font-bold">MentorMatch</span>
+          </div>
+          <nav className="hidden md:flex items-center justify-center gap-8">
+            <Link href="/dashboard" className="text-sm font-medium hover:text-pink-500">
+              Dashboard
+            </Link>
+            <Link href="/dashboard/meetings" className="text-sm font-medium hover:text-pink-500">
+              Meetings
+            </Link>
+            <Link href="/dashboard/messages" className="text-sm font-medium hover:text-pink-500">
+              Messages
+            </Link>
+            <Link href="/dashboard/notes" className="text-sm font-medium hover:text-pink-500">
+              Notes
+            </Link>
+            <Link href="/dashboard/achievements" className="text-sm font-medium hover:text-pink-500">
+              Achievements
+            </Link>
+          </nav>
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard/settings">
+              <Button variant="ghost" size="icon" className="text-pink-500">
+                <Settings className="h-5 w-5" />
+                <span className="sr-only">Settings</span>
+              </Button>
+            </Link>
+            <Avatar>
+              <AvatarImage src="/placeholder.svg?height=32&width=32" alt={profile.full_name} />
+              <AvatarFallback>{getInitials(profile.full_name)}</AvatarFallback>
+            </Avatar>
+          </div>
+        </div>
+      </header>
+      <main className="flex-1 bg-gray-50">
+        <div className="container mx-auto max-w-3xl px-4 py-6 md:py-12">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold">Profile Settings</h1>
+            <p className="text-gray-500">Keep your profile up to date so we can find you the best matches</p>
+          </div>
+
+          {matchesMayHaveChanged && (
+            <div className="mb-6 flex items-start gap-3 rounded-lg border border-pink-200 bg-pink-50 p-4">
+              <AlertCircle className="mt-0.5 h-5 w-5 text-pink-500" />
+              <div>
+                <p className="font-medium">Your matches may have changed</p>
+                <p className="text-sm text-gray-500">
+                  You updated your goals, expertise or help areas. Your program coordinator will see this the next time
+                  matches are run.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Background</CardTitle>
+                  <CardDescription>
+                    You joined as a {role === "mentor" ? "mentor" : "mentee"}.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <FormField control={form.control} name="fullName" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name*</FormLabel>
+                      <FormControl><Input {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="linkedinProfile" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>LinkedIn Profile URL (Optional)</FormLabel>
+                      <FormControl><Input placeholder="https://www.linkedin.com/in/yourprofile" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="location" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Current Location (City, Country)*</FormLabel>
+                      <FormControl><Input placeholder="E.g., London, UK" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="timeZone" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time Zone*</FormLabel>
+                      <TimeZoneSelect value={field.value} onValueChange={field.onChange} />
+                      <FormDescription>Meeting times and your availability are shown in this zone.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="careerStage" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Current Career/Education Stage*</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue placeholder="Select your stage" /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {careerStageOptions.map((opt) => <SelectItem key={opt.id} value={opt.id}>{opt.label}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <CheckboxGroupField control={form.control} name="industries" label="Industries of Interest/Expertise*" description="Select all that apply." items={industriesData} />
+                  <CheckboxGroupField control={form.control} name="languages" label="Languages Spoken*" description="Select all you are proficient in." items={languagesData} />
+                </CardContent>
+              </Card>
+
+              {role === "mentee" ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Goals &amp; Needs</CardTitle>
+                    <CardDescription>Changes here can change who you are matched with.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <FormField control={form.control} name="shortTermGoals" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Short-Term Goals (next 6-12 months)*</FormLabel>
+                        <FormControl><Textarea rows={4} {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <FormField control={form.control} name="longTermGoals" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Long-Term Aspirations (5+ years)*</FormLabel>
+                        <FormControl><Textarea rows={4} {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <CheckboxGroupField control={form.control} name="helpAreas" label="Key Areas for Mentorship*" description="Select the areas you're seeking help in." items={helpAreasData} />
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Mentoring</CardTitle>
+                    <CardDescription>Changes to your expertise or help areas can change who you are matched with.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <FormField control={form.control} name="expertise" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Your Expertise*</FormLabel>
+                        <FormControl><Textarea rows={4} {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <FormField control={form.control} name="whyMentor" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Why Do You Want to Be a Mentor?*</FormLabel>
+                        <FormControl><Textarea rows={4} {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <CheckboxGroupField control={form.control} name="helpAreas" label="Key Areas for Mentorship*" description="Select the areas you can provide guidance on." items={helpAreasData} />
+                    <FormField control={form.control} name="menteeCapacity" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>How Many Mentees Can You Take On?*</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value ? String(field.value) : undefined}>
+                          <FormControl><SelectTrigger><SelectValue placeholder="Select a number" /></SelectTrigger></FormControl>
+                          <SelectContent>
+                            {Array.from({ length: MAX_MENTEE_CAPACITY }, (_, index) => index + 1).map((count) => (
+                              <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <FormField control={form.control} name="meetingCadence" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>How Often Can You Meet Each Mentee?*</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl><SelectTrigger><SelectValue placeholder="Select a cadence" /></SelectTrigger></FormControl>
+                          <SelectContent>
+                            {meetingCadenceOptions.map((opt) => <SelectItem key={opt.id} value={opt.id}>{opt.label}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <CheckboxGroupField control={form.control} name="preferredMenteeStages" label="Preferred Mentee Career Stages*" description="Select the stages you'd most like to mentor." items={careerStageOptions} />
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardFooter className="flex justify-end pt-6">
+                  <Button type="submit" disabled={isSaving || !form.formState.isDirty} className="bg-pink-500 hover:bg-pink-600">
+                    {isSaving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</> : "Save Changes"}
+                  </Button>
+                </CardFooter>
+              </Card>
+            </form>
+          </Form>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -4,8 +4,7 @@ import React, { useState, useEffect, ChangeEvent } from "react";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
-import { z } from "zod";
+import { DefaultValues, FieldPath, useForm } from "react-hook-form";
 
 // Shadcn UI components
 import { Button } from "@/components/ui/button";
@@ -16,101 +15,61 @@ import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { TimeZoneSelect } from "@/components/time-zone-select";
 import { toast as sonnerToast } from "sonner";
 import { ArrowLeft, ArrowRight, FileUp, Loader2, Users } from "lucide-react";
 
+import { OnboardingDraftData, ONBOARDING_STEP_COUNT } from "@/lib/onboardingDrafts";
+import {
+  careerStageOptions,
+  helpAreasData,
+  industriesData,
+  languagesData,
+  MAX_MENTEE_CAPACITY,
+  meetingCadenceOptions,
+  onboardingDataSchema,
+  onboardingFormSchema,
+  OnboardingFormValues,
+  RESUME_ALLOWED_MIME_TYPES,
+  RESUME_MAX_BYTES,
+} from "@/lib/onboardingSchema";
+import type { UserRole } from "@/lib/profiles";
 import { supabase } from "@/lib/supabaseClient"; // CRITICAL: Ensure env vars for Supabase are set in Vercel
+import { localTimeZone } from "@/lib/timeZones";
 
-// Zod Schema for form validation
-// Note: If resume needs to be conditionally required (e.g., for mentees),
-// you would use .superRefine() on the schema.
-// Example:
-// const formSchema = z.object({ ...fields... }).superRefine((data, ctx) => {
-//   if (data.role === 'mentee' && !data.resume) {
-//     ctx.addIssue({
-//       code: z.ZodIssueCode.custom,
-//       message: 'Resume is required for mentees.',
-//       path: ['resume'], // Target the 'resume' field for the error message
-//     });
-//   }
-// });
-// The current schema makes the resume optional for everyone.
-const formSchema = z.object({
-  role: z.enum(["mentee", "mentor"], {
-    required_error: "Please select your role.",
-  }),
-  fullName: z.string().min(2, {
-    message: "Full name must be at least 2 characters.",
-  }),
-  linkedinProfile: z.string().url({ message: "Please enter a valid URL (e.g., https://linkedin.com/...)." }).optional().or(z.literal('')),
-  location: z.string().min(2, {
-    message: "Please enter your current location.",
-  }),
-  careerStage: z.string({
-    required_error: "Please select your career stage.",
-  }),
-  industries: z.array(z.string()).min(1, {
-    message: "Please select at least one industry.",
-  }),
-  languages: z.array(z.string()).min(1, {
-    message: "Please select at least one language.",
-  }),
-  shortTermGoals: z.string().min(10, {
-    message: "Short-term goals must be at least 10 characters.",
-  }),
-  longTermGoals: z.string().min(10, {
-    message: "Long-term goals must be at least 10 characters.",
-  }),
-  helpAreas: z.array(z.string()).min(1, {
-    message: "Please select at least one area.",
-  }),
-  resume: z.custom<File>((val): val is File => val === undefined || val instanceof File, {
-    message: "Please upload a valid resume file.",
-  }).optional(), // Resume is optional as per this schema definition
-});
-
-type OnboardingFormValues = z.infer<typeof formSchema>;
-
-interface SelectableItem { id: string; label: string; }
-
-// Static data for form options
-const industriesData: SelectableItem[] = [
-    { id: "tech", label: "Technology" }, { id: "healthcare", label: "Healthcare" },
-    { id: "education", label: "Education" }, { id: "law", label: "Law" },
-    { id: "finance", label: "Finance" }, { id: "nonprofit", label: "Nonprofit" },
-    { id: "media", label: "Media" }, { id: "retail", label: "Retail" },
-    { id: "manufacturing", label: "Manufacturing" }, { id: "consulting", label: "Consulting" },
-    { id: "government", label: "Government" }, { id: "other", label: "Other" },
-];
-const languagesData: SelectableItem[] = [
-    { id: "english", label: "English" }, { id: "spanish", label: "Spanish" },
-    { id: "french", label: "French" }, { id: "german", label: "German" },
-    { id: "chinese", label: "Chinese (Mandarin)"}, { id: "hindi", label: "Hindi"},
-    { id: "arabic", label: "Arabic"}, { id: "portuguese", label: "Portuguese"},
-    { id: "russian", label: "Russian"}, { id: "japanese", label: "Japanese"},
-    { id: "other", label: "Other"},
-];
-const helpAreasData: SelectableItem[] = [
-    { id: "resume-review", label: "Resume Review" }, { id: "career-advice", label: "Career Advice" },
-    { id: "interview-prep", label: "Interview Prep" }, { id: "networking", label: "Networking Strategies" },
-    { id: "skill-development", label: "Skill Development" }, { id: "work-life-balance", label: "Work-Life Balance" },
-    { id: "leadership", label: "Leadership Skills" }, { id: "grad-school", label: "Graduate School Advice" },
-    { id: "industry-transition", label: "Industry Transition" }, {id: "public-speaking", label: "Public Speaking"},
-    {id: "salary-negotiation", label: "Salary Negotiation"}, {id: "entrepreneurship", label: "Entrepreneurship"},
-];
-const careerStageOptions: SelectableItem[] = [
-    { id: "student-high-school", label: "High School Student" },
-    { id: "student-undergrad", label: "Undergraduate Student" },
-    { id: "student-grad", label: "Graduate Student" },
-    { id: "entry-level", label: "Entry Level (0-2 years exp.)" },
-    { id: "early-career", label: "Early Career (2-5 years exp.)" },
-    { id: "mid-career", label: "Mid-Career (5-10 years exp.)" },
-    { id: "senior-career", label: "Senior Career (10+ years exp.)" },
-    { id: "career-changer", label: "Career Changer" },
-    { id: "executive-level", label: "Executive Level"},
-    { id: "other", label: "Other" },
-];
-const stepperLabels = ["Background", "Goals & Needs", "Resume"];
+const stepperLabelsByRole: Record<UserRole, string[]> = {
+  mentee: ["Background", "Goals & Needs", "Resume"],
+  mentor: ["Background", "Mentoring", "Resume"],
+};
+
+// Step 2 asks different questions per role; only the current role's fields are validated.
+const stepTwoFieldsByRole: Record<UserRole, FieldPath<OnboardingFormValues>[]> = {
+  mentee: ["shortTermGoals", "longTermGoals", "helpAreas"],
+  mentor: ["expertise", "whyMentor", "helpAreas", "menteeCapacity", "meetingCadence", "preferredMenteeStages"],
+};
+
+const defaultFormValues: DefaultValues<OnboardingFormValues> = {
+  role: "mentee",
+  fullName: "",
+  linkedinProfile: "",
+  location: "",
+  timeZone: "", // Set to the browser's zone on load
+  careerStage: undefined, // Ensure Select placeholder shows
+  industries: [],
+  languages: [],
+  shortTermGoals: "",
+  longTermGoals: "",
+  helpAreas: [],
+  // Mentor track
+  menteeCapacity: 1,
+  meetingCadence: undefined,
+  expertise: "",
+  whyMentor: "",
+  preferredMenteeStages: [],
+  resume: undefined, // RHF's internal value for the resume field
+};
+
+const menteeCapacityOptions = Array.from({ length: MAX_MENTEE_CAPACITY }, (_, index) => index + 1);
 
 export default function OnboardingPage() {
   const [step, setStep] = useState(1);
@@ -119,20 +78,8 @@ export default function OnboardingPage() {
   const router = useRouter();
 
   const form = useForm<OnboardingFormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      role: "mentee",
-      fullName: "",
-      linkedinProfile: "",
-      location: "",
-      careerStage: undefined, // Ensure Select placeholder shows
-      industries: [],
-      languages: [],
-      shortTermGoals: "",
-      longTermGoals: "",
-      helpAreas: [],
-      resume: undefined, // RHF's internal value for the resume field
-    },
+    resolver: zodResolver(onboardingFormSchema),
+    defaultValues: defaultFormValues,
     mode: "onTouched", // Validate fields on blur/change after first touch
   });
 
@@ -145,12 +92,41 @@ export default function OnboardingPage() {
         });
         router.push('/auth/login'); // Ensure this route exists in your /pages/auth directory
       } else {
+        // Restore a saved draft, including the step that was reached
+        const draftRestored = await restoreDraft();
         // Prefill full name if available in user metadata and not already filled
         if (user.user_metadata?.full_name && !form.getValues("fullName")) {
-          form.setValue("fullName", user.user_metadata.full_name, { shouldValidate: true });
+          form.setValue("fullName", user.user_metadata.full_name, { shouldValidate: !draftRestored });
+        }
+        // Preselect the role chosen on the landing page at signup
+        const signupRole = user.user_metadata?.role;
+        if (!draftRestored && (signupRole === "mentee" || signupRole === "mentor")) {
+          form.setValue("role", signupRole);
+        }
+        if (!form.getValues("timeZone")) {
+          form.setValue("timeZone", localTimeZone());
         }
       }
     };
+
+    const restoreDraft = async (): Promise<boolean> => {
+      try {
+        const response = await fetch('/api/onboarding/draft');
+        const result = await response.json();
+        const draft: { step: number; data: OnboardingDraftData } | null | undefined = result.data;
+        if (!response.ok || !result.success || !draft) return false;
+
+        form.reset({ ...defaultFormValues, ...draft.data });
+        setStep(Math.min(Math.max(draft.step, 1), ONBOARDING_STEP_COUNT));
+        sonnerToast.success("Welcome back!", {
+          description: "We restored your saved answers. Your resume will need to be uploaded again.",
+        });
+        return true;
+      } catch (error) {
+        console.error("Error restoring onboarding draft:", error);
+        return false;
+      }
+    };
     checkUserAndPrefill();
   }, [router, form]); // form instance is stable, router is for navigation
 
@@ -169,14 +145,10 @@ export default function OnboardingPage() {
 
     const formData = new FormData();
 
-    // Prepare JSON data: take all form values, explicitly exclude the 'resume' File object
-    // (as it's handled separately), and add user ID and email.
-    // This explicitly avoids an unused 'resume' variable from destructuring.
-    const formValuesCopy = { ...values };
-    delete formValuesCopy.resume; // Remove the File object reference from the data to be stringified
-
+    // Prepare JSON data: keep only the selected role's answers. Parsing also drops
+    // the 'resume' File object, which is handled separately.
     const formValuesForJson = {
-      ...formValuesCopy,
+      ...onboardingDataSchema.parse(values),
       // These will be validated/overridden by the server-side authenticated user's details
       // It's good practice for the server to be the source of truth for userId and email.
       // userId: user.id, (Commented out as API uses authenticated user's ID)
@@ -221,7 +193,7 @@ export default function OnboardingPage() {
     const file = e.target.files?.[0];
     if (file) {
       // File size validation (5MB limit)
-      if (file.size > 5 * 1024 * 1024) {
+      if (file.size > RESUME_MAX_BYTES) {
         form.setError("resume", { type: "manual", message: "Resume must be less than 5MB." });
         sonnerToast.error("File too large", { description: "Resume should be less than 5MB." });
         setResumeFile(null);
@@ -229,8 +201,7 @@ export default function OnboardingPage() {
         return;
       }
       // File type validation
-      const allowedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'application/msword'];
-      if (!allowedTypes.includes(file.type)) {
+      if (!RESUME_ALLOWED_MIME_TYPES.includes(file.type)) {
         form.setError("resume", { type: "manual", message: "Only PDF, DOC, or DOCX files are allowed." });
         sonnerToast.error("Invalid file type", { description: "Only PDF, DOC, or DOCX files are accepted." });
         setResumeFile(null);
@@ -247,22 +218,41 @@ export default function OnboardingPage() {
     }
   };
 
+  // Saved on every step transition; failures only cost the user their draft, so they are logged, not shown.
+  const saveDraft = async (draftStep: number) => {
+    const values = { ...form.getValues() };
+    delete values.resume; // Files cannot be saved in a draft
+    try {
+      const response = await fetch('/api/onboarding/draft', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ step: draftStep, data: values }),
+      });
+      if (!response.ok) {
+        console.error("Failed to save onboarding draft:", (await response.json()).error);
+      }
+    } catch (error) {
+      console.error("Error saving onboarding draft:", error);
+    }
+  };
+
   const handleNextStep = async () => {
-    let fieldsToValidate: Array<keyof OnboardingFormValues> = [];
+    let fieldsToValidate: FieldPath<OnboardingFormValues>[] = [];
     if (step === 1) {
-      fieldsToValidate = ["role", "fullName", "location", "careerStage", "industries", "languages"];
+      fieldsToValidate = ["role", "fullName", "location", "timeZone", "careerStage", "industries", "languages"];
       if (form.getValues("linkedinProfile")) { // Validate LinkedIn only if a value is entered
         fieldsToValidate.push("linkedinProfile");
       }
     } else if (step === 2) {
-      fieldsToValidate = ["shortTermGoals", "longTermGoals", "helpAreas"];
+      fieldsToValidate = [...stepTwoFieldsByRole[form.getValues("role")]];
     }
     // Step 3 (Resume) validation is part of the overall form submission via Zod.
 
     if (fieldsToValidate.length > 0) {
       const isValid = await form.trigger(fieldsToValidate); // Manually trigger validation for current step's fields
       if (isValid) {
-        setStep((s) => s + 1);
+        setStep(step + 1);
+        void saveDraft(step + 1);
       } else {
         sonnerToast.error("Incomplete Information", {
           description: "Please fill out all required fields in this section correctly.",
@@ -271,13 +261,19 @@ export default function OnboardingPage() {
       }
     } else {
       // If no specific fields to validate for this step transition (e.g., moving from step 2 to 3)
-      setStep((s) => s + 1);
+      setStep(step + 1);
+      void saveDraft(step + 1);
     }
   };
 
-  const handlePrevStep = () => setStep((s) => Math.max(1, s - 1)); // Prevent going below step 1
+  const handlePrevStep = () => {
+    const previousStep = Math.max(1, step - 1); // Prevent going below step 1
+    setStep(previousStep);
+    void saveDraft(previousStep);
+  };
 
   const currentRole = form.watch("role"); // Watch for role changes to update UI if needed
+  const stepperLabels = stepperLabelsByRole[currentRole];
 
   return (
     <div className="flex min-h-screen flex-col bg-gray-100 dark:bg-gray-950">
@@ -345,6 +341,7 @@ export default function OnboardingPage() {
                     <FormField control={form.control} name="fullName" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">Full Name*</FormLabel> <FormControl><Input placeholder="E.g., Ada Lovelace" {...field} className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600" /></FormControl> <FormMessage /> </FormItem>)} />
                     <FormField control={form.control} name="linkedinProfile" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">LinkedIn Profile URL (Optional)</FormLabel> <FormControl><Input placeholder="https://www.linkedin.com/in/yourprofile" {...field} className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600" /></FormControl> <FormDescription className="dark:text-gray-500">Share your LinkedIn profile if you have one.</FormDescription><FormMessage /> </FormItem>)} />
                     <FormField control={form.control} name="location" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">Current Location (City, Country)*</FormLabel> <FormControl><Input placeholder="E.g., London, UK" {...field} className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600" /></FormControl> <FormMessage /> </FormItem>)} />
+                    <FormField control={form.control} name="timeZone" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">Time Zone*</FormLabel> <TimeZoneSelect value={field.value} onValueChange={field.onChange} className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600" /> <FormDescription className="dark:text-gray-500">Meeting times are shown in this zone.</FormDescription><FormMessage /> </FormItem>)} />
                     <FormField control={form.control} name="careerStage" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">Current Career/Education Stage*</FormLabel> <Select onValueChange={field.onChange} defaultValue={field.value}> <FormControl><SelectTrigger className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600"><SelectValue placeholder="Select your stage" /></SelectTrigger></FormControl> <SelectContent className="dark:bg-gray-800 dark:text-gray-50">{careerStageOptions.map(opt => <SelectItem key={opt.id} value={opt.id} className="dark:hover:bg-gray-700">{opt.label}</SelectItem>)}</SelectContent> </Select> <FormMessage /> </FormItem>)} />
                     <FormField control={form.control} name="industries" render={() => ( <FormItem> <div className="mb-2"><FormLabel className="text-base font-semibold dark:text-gray-200">Industries of Interest/Expertise*</FormLabel> <FormDescription className="dark:text-gray-500">Select all that apply.</FormDescription></div> <div className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-3">{industriesData.map((item) => ( <FormField key={item.id} control={form.control} name="industries" render={({ field }) => ( <FormItem className="flex items-center space-x-2 space-y-0"> <FormControl><Checkbox checked={field.value?.includes(item.id)} onCheckedChange={(checked) => field.onChange( checked ? [...(field.value || []), item.id] : (field.value || []).filter((id) => id !== item.id) )}/></FormControl> <FormLabel className="text-sm font-normal cursor-pointer dark:text-gray-300">{item.label}</FormLabel> </FormItem> )} /> ))}</div> <FormMessage /> </FormItem>)} />
                     <FormField control={form.control} name="languages" render={() => ( <FormItem> <div className="mb-2"><FormLabel className="text-base font-semibold dark:text-gray-200">Languages Spoken*</FormLabel> <FormDescription className="dark:text-gray-500">Select all you are proficient in.</FormDescription></div> <div className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-3">{languagesData.map((item) => ( <FormField key={item.id} control={form.control} name="languages" render={({ field }) => ( <FormItem className="flex items-center space-x-2 space-y-0"> <FormControl><Checkbox checked={field.value?.includes(item.id)} onCheckedChange={(checked) => field.onChange( checked ? [...(field.value || []), item.id] : (field.value || []).filter((id) => id !== item.id) )}/></FormControl> <FormLabel className="text-sm font-normal cursor-pointer dark:text-gray-300">{item.label}</FormLabel> </FormItem> )} /> ))}</div> <FormMessage /> </FormItem>)} />
@@ -355,13 +352,31 @@ export default function OnboardingPage() {
                 </Card>
               )}
 
-              {step === 2 && (
+              {step === 2 && currentRole === "mentee" && (
                    <Card className="shadow-lg dark:bg-gray-800 dark:border-gray-700">
-                     <CardHeader> <CardTitle className="dark:text-gray-50">Step 2: Goals &amp; Needs</CardTitle> <CardDescription className="dark:text-gray-400">What are you looking to achieve or offer?</CardDescription> </CardHeader>
+                     <CardHeader> <CardTitle className="dark:text-gray-50">Step 2: Goals &amp; Needs</CardTitle> <CardDescription className="dark:text-gray-400">What are you looking to achieve?</CardDescription> </CardHeader>
                      <CardContent className="space-y-6">
                        <FormField control={form.control} name="shortTermGoals" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">Short-Term Goals (next 6-12 months)*</FormLabel> <FormControl><Textarea placeholder="E.g., Improve my public speaking skills, find a new job in tech, learn about product management..." {...field} rows={4} className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600" /></FormControl> <FormMessage /> </FormItem>)} />
                        <FormField control={form.control} name="longTermGoals" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">Long-Term Aspirations (5+ years)*</FormLabel> <FormControl><Textarea placeholder="E.g., Become a CTO, start my own non-profit, write a book..." {...field} rows={4} className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600" /></FormControl> <FormMessage /> </FormItem>)} />
-                       <FormField control={form.control} name="helpAreas" render={() => ( <FormItem> <div className="mb-2"><FormLabel className="text-base font-semibold dark:text-gray-200">Key Areas for Mentorship*</FormLabel> <FormDescription className="dark:text-gray-500">Select areas you&apos;re seeking help in or can provide guidance on.</FormDescription></div> <div className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-3">{helpAreasData.map((item) => ( <FormField key={item.id} control={form.control} name="helpAreas" render={({ field }) => ( <FormItem className="flex items-center space-x-2 space-y-0"> <FormControl><Checkbox checked={field.value?.includes(item.id)} onCheckedChange={(checked) => field.onChange( checked ? [...(field.value || []), item.id] : (field.value || []).filter((id) => id !== item.id) )}/></FormControl> <FormLabel className="text-sm font-normal cursor-pointer dark:text-gray-300">{item.label}</FormLabel> </FormItem> )} /> ))}</div> <FormMessage /> </FormItem>)} />
+                       <FormField control={form.control} name="helpAreas" render={() => ( <FormItem> <div className="mb-2"><FormLabel className="text-base font-semibold dark:text-gray-200">Key Areas for Mentorship*</FormLabel> <FormDescription className="dark:text-gray-500">Select the areas you&apos;re seeking help in.</FormDescription></div> <div className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-3">{helpAreasData.map((item) => ( <FormField key={item.id} control={form.control} name="helpAreas" render={({ field }) => ( <FormItem className="flex items-center space-x-2 space-y-0"> <FormControl><Checkbox checked={field.value?.includes(item.id)} onCheckedChange={(checked) => field.onChange( checked ? [...(field.value || []), item.id] : (field.value || []).filter((id) => id !== item.id) )}/></FormControl> <FormLabel className="text-sm font-normal cursor-pointer dark:text-gray-300">{item.label}</FormLabel> </FormItem> )} /> ))}</div> <FormMessage /> </FormItem>)} />
+                     </CardContent>
+                     <CardFooter className="flex justify-between">
+                       <Button type="button" variant="outline" onClick={handlePrevStep} className="dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"> <ArrowLeft className="mr-2 h-4 w-4" /> Back </Button>
+                       <Button type="button" onClick={handleNextStep} className="bg-pink-500 hover:bg-pink-600 text-white"> Next <ArrowRight className="ml-2 h-4 w-4" /> </Button>
+                     </CardFooter>
+                   </Card>
+              )}
+
+              {step === 2 && currentRole === "mentor" && (
+                   <Card className="shadow-lg dark:bg-gray-800 dark:border-gray-700">
+                     <CardHeader> <CardTitle className="dark:text-gray-50">Step 2: Mentoring</CardTitle> <CardDescription className="dark:text-gray-400">What can you offer, and how much time do you have?</CardDescription> </CardHeader>
+                     <CardContent className="space-y-6">
+                       <FormField control={form.control} name="expertise" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">Your Expertise*</FormLabel> <FormControl><Textarea placeholder="E.g., 10 years in product management at SaaS startups, hiring and growing PM teams..." {...field} rows={4} className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600" /></FormControl> <FormMessage /> </FormItem>)} />
+                       <FormField control={form.control} name="whyMentor" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">Why Do You Want to Be a Mentor?*</FormLabel> <FormControl><Textarea placeholder="E.g., I benefited from great mentors early on and want to help others navigate their first roles..." {...field} rows={4} className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600" /></FormControl> <FormMessage /> </FormItem>)} />
+                       <FormField control={form.control} name="helpAreas" render={() => ( <FormItem> <div className="mb-2"><FormLabel className="text-base font-semibold dark:text-gray-200">Key Areas for Mentorship*</FormLabel> <FormDescription className="dark:text-gray-500">Select the areas you can provide guidance on.</FormDescription></div> <div className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-3">{helpAreasData.map((item) => ( <FormField key={item.id} control={form.control} name="helpAreas" render={({ field }) => ( <FormItem className="flex items-center space-x-2 space-y-0"> <FormControl><Checkbox checked={field.value?.includes(item.id)} onCheckedChange={(checked) => field.onChange( checked ? [...(field.value || []), item.id] : (field.value || []).filter((id) => id !== item.id) )}/></FormControl> <FormLabel className="text-sm font-normal cursor-pointer dark:text-gray-300">{item.label}</FormLabel> </FormItem> )} /> ))}</div> <FormMessage /> </FormItem>)} />
+                       <FormField control={form.control} name="menteeCapacity" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">How Many Mentees Can You Take On?*</FormLabel> <Select onValueChange={(value) => field.onChange(Number(value))} defaultValue={field.value ? String(field.value) : undefined}> <FormControl><SelectTrigger className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600"><SelectValue placeholder="Select a number" /></SelectTrigger></FormControl> <SelectContent className="dark:bg-gray-800 dark:text-gray-50">{menteeCapacityOptions.map(count => <SelectItem key={count} value={String(count)} className="dark:hover:bg-gray-700">{count}</SelectItem>)}</SelectContent> </Select> <FormMessage /> </FormItem>)} />
+                       <FormField control={form.control} name="meetingCadence" render={({ field }) => ( <FormItem> <FormLabel className="dark:text-gray-200">How Often Can You Meet Each Mentee?*</FormLabel> <Select onValueChange={field.onChange} defaultValue={field.value}> <FormControl><SelectTrigger className="dark:bg-gray-700 dark:text-gray-50 dark:border-gray-600"><SelectValue placeholder="Select a cadence" /></SelectTrigger></FormControl> <SelectContent className="dark:bg-gray-800 dark:text-gray-50">{meetingCadenceOptions.map(opt => <SelectItem key={opt.id} value={opt.id} className="dark:hover:bg-gray-700">{opt.label}</SelectItem>)}</SelectContent> </Select> <FormMessage /> </FormItem>)} />
+                       <FormField control={form.control} name="preferredMenteeStages" render={() => ( <FormItem> <div className="mb-2"><FormLabel className="text-base font-semibold dark:text-gray-200">Preferred Mentee Career Stages*</FormLabel> <FormDescription className="dark:text-gray-500">Select the stages you&apos;d most like to mentor.</FormDescription></div> <div className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-3">{careerStageOptions.map((item) => ( <FormField key={item.id} control={form.control} name="preferredMenteeStages" render={({ field }) => ( <FormItem className="flex items-center space-x-2 space-y-0"> <FormControl><Checkbox checked={field.value?.includes(item.id)} onCheckedChange={(checked) => field.onChange( checked ? [...(field.value || []), item.id] : (field.value || []).filter((id) => id !== item.id) )}/></FormControl> <FormLabel className="text-sm font-normal cursor-pointer dark:text-gray-300">{item.label}</FormLabel> </FormItem> )} /> ))}</div> <FormMessage /> </FormItem>)} />
                      </CardContent>
                      <CardFooter className="flex justify-between">
                        <Button type="button" variant="outline" onClick={handlePrevStep} className="dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"> <ArrowLeft className="mr-2 h-4 w-4" /> Back </Button>
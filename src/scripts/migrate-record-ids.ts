@@ -0,0 +1,46 @@
+import * as dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' }); // Explicitly load .env.local
+
+import { migrateLegacyRecordIds, LegacyRecordUserResolver } from '../lib/pinecone.ts';
+
+// Re-keys name-based records in the "responses" index onto Supabase user ids.
+// Legacy records are matched to users through the email stored in their metadata.
+// Pass --dry-run to only report what would change.
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  // Imported after dotenv has run: supabaseClient reads its env vars at module load.
+  const { getSupabaseAdminClient } = await import('../lib/supabaseClient.ts');
+  const supabaseAdmin = getSupabaseAdminClient();
+
+  const resolveUserIdByEmail: LegacyRecordUserResolver = async (record) => {
+    const email = record.metadata?.email;
+    if (typeof email !== 'string' || email.trim() === '') return null;
+
+    const { data, error } = await supabaseAdmin
+      .from('user_onboarding_details')
+      .select('user_id')
+      .eq('email', email.trim().toLowerCase())
+      .maybeSingle<{ user_id: string }>();
+
+    if (error) {
+      console.error(`Lookup failed for ${email}:`, error.message);
+      return null;
+    }
+    return data?.user_id ?? null;
+  };
+
+  const report = await migrateLegacyRecordIds(resolveUserIdByEmail, { dryRun });
+
+  console.log(`\n--- Record ID Migration${dryRun ? ' (dry run)' : ''} ---`);
+  report.migrated.forEach(({ from, to }) => console.log(`   ${from}  ==>  ${to}`));
+  report.alreadyMigrated.forEach(id => console.log(`   ${id}  ==>  removed (user already has a record)`));
+  report.unresolved.forEach(id => console.log(`   ${id}  ==>  UNRESOLVED (left in place)`));
+  console.log('----------------------------------\n');
+}
+
+main().catch(error => {
+  console.error('FATAL: Record ID migration failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,6 @@
+// pdf-parse's package entry runs a debug self-test when imported as an ES
+// module, so the library file is imported directly; it has the same API.
+declare module "pdf-parse/lib/pdf-parse.js" {
+  import pdfParse from "pdf-parse";
+  export default pdfParse;
+}